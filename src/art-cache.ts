@@ -0,0 +1,210 @@
+import * as crypto from "crypto";
+import * as fs from "fs-extra";
+import * as path from "path";
+
+export interface ArtCacheConfig {
+  enabled?: boolean;
+  dir?: string;
+  // Seconds a cached file is trusted before it is revalidated with the server
+  maxAge?: number;
+  // Only use cached art; never touch the network
+  offline?: boolean;
+  // Seconds a download may take before it is abandoned
+  timeout?: number;
+}
+
+interface CacheEntry {
+  hash: string;
+  size: number;
+  etag?: string;
+  lastModified?: string;
+  checkedAt: number;
+}
+
+interface CacheIndex {
+  version: 1;
+  entries: Record<string, CacheEntry>;
+}
+
+export class ArtCacheMissError extends Error {
+  constructor(url: string) {
+    super(`Not in the art cache (offline mode): ${url}`);
+    this.name = "ArtCacheMissError";
+  }
+}
+
+/**
+ * Content-addressed cache for remote card art. Files are stored by SHA-256 of
+ * their bytes under `<dir>/blobs`, and `<dir>/index.json` maps each URL to its
+ * blob plus the ETag / Last-Modified headers used to revalidate it.
+ */
+export class ArtCache {
+  private dir: string;
+  private maxAge: number;
+  private offline: boolean;
+  private timeout: number;
+  // Shared by concurrent callers, so they all update the same entries
+  private indexPromise?: Promise<CacheIndex>;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(config: ArtCacheConfig = {}) {
+    this.dir = config.dir || "./.cache/art";
+    this.maxAge = config.maxAge ?? 3600;
+    this.offline = config.offline || false;
+    this.timeout = config.timeout ?? 30;
+  }
+
+  private get indexPath(): string {
+    return path.join(this.dir, "index.json");
+  }
+
+  private blobPath(hash: string): string {
+    return path.join(this.dir, "blobs", hash);
+  }
+
+  private loadIndex(): Promise<CacheIndex> {
+    this.indexPromise ??= fs
+      .readJson(this.indexPath)
+      .then((index) => index as CacheIndex)
+      .catch(() => ({ version: 1, entries: {} }));
+    return this.indexPromise;
+  }
+
+  private async saveIndex(): Promise<void> {
+    const index = await this.loadIndex();
+    this.saving = this.saving.then(async () => {
+      await fs.ensureDir(this.dir);
+      const tempPath = `${this.indexPath}.${process.pid}.tmp`;
+      await fs.writeJson(tempPath, index, { spaces: 2 });
+      await fs.move(tempPath, this.indexPath, { overwrite: true });
+    });
+    await this.saving;
+  }
+
+  private async readBlob(entry: CacheEntry): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.blobPath(entry.hash));
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Returns the art for `url`, from the cache when it is fresh, after a
+   * conditional request when it is stale, or downloaded when missing. A stale
+   * copy is still used when the network is unavailable or too slow.
+   */
+  public async fetch(url: string): Promise<Buffer> {
+    const index = await this.loadIndex();
+    const entry = index.entries[url];
+    const cached = entry && (await this.readBlob(entry));
+
+    if (this.offline) {
+      if (!cached) throw new ArtCacheMissError(url);
+      return cached;
+    }
+
+    if (cached && Date.now() - entry.checkedAt < this.maxAge * 1000) {
+      return cached;
+    }
+
+    const headers: Record<string, string> = {};
+    if (cached && entry.etag) headers["If-None-Match"] = entry.etag;
+    if (cached && entry.lastModified) {
+      headers["If-Modified-Since"] = entry.lastModified;
+    }
+
+    let response: Response;
+    let data: Buffer;
+    try {
+      response = await fetch(url, {
+        headers,
+        signal: AbortSignal.timeout(this.timeout * 1000),
+      });
+      data = Buffer.from(await response.arrayBuffer());
+    } catch (error) {
+      if (cached) {
+        console.warn(`⚠️  Using cached art, revalidation failed for ${url}`);
+        return cached;
+      }
+      throw error;
+    }
+
+    if (response.status === 304 && cached) {
+      entry.checkedAt = Date.now();
+      await this.saveIndex();
+      return cached;
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} for ${url}`);
+    }
+
+    const hash = crypto.createHash("sha256").update(data).digest("hex");
+    await fs.ensureDir(path.dirname(this.blobPath(hash)));
+    if (!(await fs.pathExists(this.blobPath(hash)))) {
+      await fs.writeFile(this.blobPath(hash), data);
+    }
+
+    index.entries[url] = {
+      hash,
+      size: data.length,
+      etag: response.headers.get("etag") || undefined,
+      lastModified: response.headers.get("last-modified") || undefined,
+      checkedAt: Date.now(),
+    };
+    await this.saveIndex();
+    return data;
+  }
+
+  /**
+   * The hash of the cached copy of `url`, without touching the network, or
+   * undefined when it isn't cached yet.
+   */
+  public async getCachedHash(url: string): Promise<string | undefined> {
+    const index = await this.loadIndex();
+    return index.entries[url]?.hash;
+  }
+
+  /**
+   * Drops index entries for URLs not in `keepUrls` (when given) and deletes
+   * blob files no entry refers to anymore.
+   */
+  public async prune(keepUrls?: Set<string>): Promise<{
+    removedEntries: number;
+    removedFiles: number;
+    freedBytes: number;
+  }> {
+    const index = await this.loadIndex();
+    let removedEntries = 0;
+
+    if (keepUrls) {
+      for (const url of Object.keys(index.entries)) {
+        if (!keepUrls.has(url)) {
+          delete index.entries[url];
+          removedEntries++;
+        }
+      }
+    }
+
+    const referenced = new Set(
+      Object.values(index.entries).map((entry) => entry.hash)
+    );
+    const blobDir = path.join(this.dir, "blobs");
+    const files = (await fs.pathExists(blobDir))
+      ? await fs.readdir(blobDir)
+      : [];
+
+    let removedFiles = 0;
+    let freedBytes = 0;
+    for (const file of files) {
+      if (referenced.has(file)) continue;
+      const stats = await fs.stat(path.join(blobDir, file));
+      await fs.remove(path.join(blobDir, file));
+      removedFiles++;
+      freedBytes += stats.size;
+    }
+
+    await this.saveIndex();
+    return { removedEntries, removedFiles, freedBytes };
+  }
+}
@@ -0,0 +1,150 @@
+import type { Box } from "./card-generator";
+
+/**
+ * How card art fills its box:
+ * - `fill` stretches it to the box (the default)
+ * - `cover` scales it to cover the whole box and crops the overflow, keeping
+ *   the focal point in view
+ * - `contain` scales it to fit inside the box, leaving empty bands
+ */
+export const ART_FIT_MODES = ["fill", "cover", "contain"] as const;
+
+export type ArtFitMode = (typeof ART_FIT_MODES)[number];
+
+/** A point of the art as fractions of its width and height. */
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+export interface ArtShadow {
+  color?: string;
+  blur?: number;
+  offsetX?: number;
+  offsetY?: number;
+}
+
+/** Darkens the edges of the art with a radial gradient. */
+export interface ArtVignette {
+  color?: string;
+  // Opacity at the corners, 0-1
+  strength?: number;
+  // Where the darkening starts, as a fraction of the distance to the corners
+  start?: number;
+}
+
+export interface ArtStyle {
+  fit?: ArtFitMode;
+  // Kept in view by `cover` and used to align `contain`, defaults to center
+  focus?: FocalPoint;
+  // CSV column with a per-card focal point, e.g. "0.5 0.2" or "50% 20%"
+  focusColumn?: string;
+  // CSV column with a per-card crop in art pixels, "x y width height"
+  cropColumn?: string;
+  // Rounded corners, in card pixels
+  radius?: number;
+  // PNG whose alpha channel masks the art, stretched to the art box
+  mask?: string;
+  shadow?: ArtShadow;
+  vignette?: ArtVignette;
+}
+
+/** Where `drawImage` takes the art from and where it puts it. */
+export interface ArtPlacement {
+  source: Box;
+  target: Box;
+}
+
+function parseNumbers(value: string): number[] | null {
+  const parts = value.trim().split(/[\s,]+/);
+  const numbers = parts.map((part) =>
+    part.endsWith("%") ? parseFloat(part) / 100 : parseFloat(part)
+  );
+  return numbers.some((number) => !Number.isFinite(number)) ? null : numbers;
+}
+
+/** Reads a focal point such as "0.5 0.2", "50% 20%" or "0.5,0.2". */
+export function parseFocalPoint(value: string): FocalPoint | null {
+  const numbers = parseNumbers(value);
+  if (!numbers || numbers.length !== 2) return null;
+  const [x, y] = numbers;
+  return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : null;
+}
+
+/** Reads a crop rectangle "x y width height" (or comma-separated). */
+export function parseCrop(value: string): Box | null {
+  const numbers = parseNumbers(value);
+  if (!numbers || numbers.length !== 4) return null;
+  const [x, y, width, height] = numbers;
+  return x >= 0 && y >= 0 && width > 0 && height > 0
+    ? { x, y, width, height }
+    : null;
+}
+
+/**
+ * Places an image of `imageWidth`x`imageHeight` (or its `crop`) in `box`
+ * according to `fit`.
+ */
+export function placeArt(
+  imageWidth: number,
+  imageHeight: number,
+  box: Box,
+  fit: ArtFitMode = "fill",
+  focus: FocalPoint = { x: 0.5, y: 0.5 },
+  crop?: Box
+): ArtPlacement {
+  const source: Box = crop
+    ? {
+        x: Math.min(crop.x, imageWidth),
+        y: Math.min(crop.y, imageHeight),
+        width: Math.min(crop.width, imageWidth - Math.min(crop.x, imageWidth)),
+        height: Math.min(
+          crop.height,
+          imageHeight - Math.min(crop.y, imageHeight)
+        ),
+      }
+    : { x: 0, y: 0, width: imageWidth, height: imageHeight };
+
+  if (fit === "fill" || !source.width || !source.height) {
+    return { source, target: box };
+  }
+
+  if (fit === "contain") {
+    const scale = Math.min(
+      box.width / source.width,
+      box.height / source.height
+    );
+    const width = source.width * scale;
+    const height = source.height * scale;
+    return {
+      source,
+      target: {
+        x: box.x + (box.width - width) * focus.x,
+        y: box.y + (box.height - height) * focus.y,
+        width,
+        height,
+      },
+    };
+  }
+
+  // cover: the visible part of the source, centered on the focal point as far
+  // as the edges allow
+  const scale = Math.max(box.width / source.width, box.height / source.height);
+  const width = box.width / scale;
+  const height = box.height / scale;
+  const clamp = (value: number, max: number) =>
+    Math.max(0, Math.min(value, max));
+  return {
+    source: {
+      x:
+        source.x +
+        clamp(focus.x * source.width - width / 2, source.width - width),
+      y:
+        source.y +
+        clamp(focus.y * source.height - height / 2, source.height - height),
+      width,
+      height,
+    },
+    target: box,
+  };
+}
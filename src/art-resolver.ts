@@ -0,0 +1,148 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { ArtCache } from "./art-cache";
+import type { CardData } from "./card-generator";
+import { renderTemplate, toRow } from "./template";
+
+export const DEFAULT_REMOTE_ART_URL =
+  "https://beetle-game.s3.us-east-1.amazonaws.com/images/{{Address}}.png";
+
+/**
+ * One place card art may come from. `data` is anything `loadImage` accepts
+ * (a file path, a URL or an in-memory image buffer), or a function producing
+ * the bytes lazily so later candidates cost nothing when an earlier one loads.
+ */
+export interface ArtCandidate {
+  source: string;
+  data: string | Buffer | (() => Promise<Buffer>);
+  // Human-readable origin for logs and reports, e.g. the URL
+  location?: string;
+  // Identifies the image without loading it, so incremental builds can tell
+  // whether it changed; without it, lazy `data` is loaded to hash it
+  fingerprint?: () => Promise<string>;
+}
+
+/**
+ * Produces the art candidates for a card, in the order they should be tried.
+ * The generator draws the first candidate that loads. Pass a custom resolver
+ * through `GeneratorConfig.artResolver` to supply images from anywhere (e.g.
+ * in-memory fixtures in tests).
+ */
+export interface ArtResolver {
+  getCandidates(card: CardData): Promise<ArtCandidate[]>;
+}
+
+export type ArtSourceConfig =
+  | {
+      // A local folder with files named after a card column, e.g. 0xF33...png
+      type: "local";
+      dir: string;
+      keys?: Array<keyof CardData>;
+      extensions?: string[];
+    }
+  | {
+      // A CSV column holding an image URL or path (the Beetle column)
+      type: "column";
+      column?: string;
+    }
+  | {
+      // A URL built from card columns, e.g. ".../images/{{Address}}.png"
+      type: "remote";
+      url?: string;
+    };
+
+export const ART_SOURCE_TYPES = ["local", "column", "remote"] as const;
+
+export const DEFAULT_ART_SOURCES: ArtSourceConfig[] = [
+  { type: "local", dir: "./art" },
+  { type: "column", column: "Beetle" },
+  { type: "remote", url: DEFAULT_REMOTE_ART_URL },
+];
+
+/** Whether a source is fetched over HTTP(S) rather than read from disk. */
+export function isRemoteUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+export class ArtSourceChain implements ArtResolver {
+  constructor(
+    private sources: ArtSourceConfig[] = DEFAULT_ART_SOURCES,
+    private cache?: ArtCache
+  ) {}
+
+  private toCandidate(source: string, value: string): ArtCandidate {
+    const cache = this.cache;
+    if (cache && isRemoteUrl(value)) {
+      return {
+        source,
+        location: value,
+        data: () => cache.fetch(value),
+        // The cached copy, if any; a download changes the fingerprint
+        fingerprint: async () => {
+          const hash = await cache.getCachedHash(value);
+          return hash ? `${value}#${hash}` : value;
+        },
+      };
+    }
+    return { source, location: value, data: value };
+  }
+
+  public async getCandidates(card: CardData): Promise<ArtCandidate[]> {
+    const candidates: ArtCandidate[] = [];
+
+    for (const source of this.sources) {
+      switch (source.type) {
+        case "local": {
+          const file = await this.findLocalFile(card, source);
+          if (file) {
+            candidates.push(this.toCandidate("local", file));
+          }
+          break;
+        }
+        case "column": {
+          const column = source.column || "Beetle";
+          const value = toRow(card)[column]?.trim();
+          if (value) {
+            candidates.push(this.toCandidate(`column:${column}`, value));
+          }
+          break;
+        }
+        case "remote": {
+          // A URL with a column missing can't point at this card's art
+          const url = renderTemplate(
+            source.url || DEFAULT_REMOTE_ART_URL,
+            toRow(card),
+            { requireAll: true }
+          );
+          if (url) {
+            candidates.push(this.toCandidate("remote", url));
+          }
+          break;
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  private async findLocalFile(
+    card: CardData,
+    source: Extract<ArtSourceConfig, { type: "local" }>
+  ): Promise<string | undefined> {
+    const keys = source.keys || ["Address", "Card"];
+    const extensions = source.extensions || [".png", ".jpg", ".jpeg", ".webp"];
+
+    for (const key of keys) {
+      const value = toRow(card)[key]?.trim();
+      if (!value) continue;
+
+      for (const extension of extensions) {
+        const file = path.join(source.dir, `${value}${extension}`);
+        if (await fs.pathExists(file)) {
+          return file;
+        }
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,152 @@
+import * as crypto from "crypto";
+import * as fs from "fs-extra";
+import * as path from "path";
+import type { CardArt } from "./card-manifest";
+import type { TextOverflow } from "./text-fit";
+
+export const BUILD_MANIFEST_FILENAME = ".build-manifest.json";
+
+/** Hashes of everything that went into one rendered card. */
+export interface CardFingerprint {
+  row: string;
+  layout: string;
+  assets: string;
+  fonts: string;
+  art: string;
+}
+
+interface ManifestEntry {
+  // One file per output target, relative to the output directory
+  outputs: string[];
+  inputs: CardFingerprint;
+  // Text that didn't fit when the card was rendered
+  overflows?: TextOverflow[];
+  // Where its art came from, unset when none could be loaded
+  art?: CardArt;
+}
+
+interface ManifestFile {
+  version: 2;
+  cards: Record<string, ManifestEntry>;
+}
+
+export function hashData(data: string | Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Records, per card, the output file and the input hashes it was rendered
+ * from, so later runs can skip cards whose inputs haven't changed. Stored as
+ * `.build-manifest.json` in the output directory.
+ */
+export class BuildManifest {
+  private cards: Record<string, ManifestEntry> = {};
+
+  private constructor(private outputDir: string) {}
+
+  private get manifestPath(): string {
+    return path.join(this.outputDir, BUILD_MANIFEST_FILENAME);
+  }
+
+  public static async load(outputDir: string): Promise<BuildManifest> {
+    const manifest = new BuildManifest(outputDir);
+    try {
+      const file = (await fs.readJson(manifest.manifestPath)) as ManifestFile;
+      if (file.version === 2) {
+        manifest.cards = file.cards;
+      }
+    } catch (error) {
+      // No manifest yet (or unreadable): every card is stale
+    }
+    return manifest;
+  }
+
+  public async isFresh(
+    cardId: string,
+    outputs: string[],
+    inputs: CardFingerprint
+  ): Promise<boolean> {
+    const entry = this.cards[cardId];
+    if (!entry || JSON.stringify(entry.outputs) !== JSON.stringify(outputs)) {
+      return false;
+    }
+    if (JSON.stringify(entry.inputs) !== JSON.stringify(inputs)) {
+      return false;
+    }
+    for (const output of outputs) {
+      if (!(await fs.pathExists(path.join(this.outputDir, output)))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  public record(
+    cardId: string,
+    outputs: string[],
+    inputs: CardFingerprint,
+    overflows: TextOverflow[] = [],
+    art?: CardArt
+  ): void {
+    this.cards[cardId] = {
+      outputs,
+      inputs,
+      ...(overflows.length ? { overflows } : {}),
+      ...(art ? { art } : {}),
+    };
+  }
+
+  public getOverflows(cardId: string): TextOverflow[] {
+    return this.cards[cardId]?.overflows || [];
+  }
+
+  public getArt(cardId: string): CardArt | undefined {
+    return this.cards[cardId]?.art;
+  }
+
+  /**
+   * Deletes the files a card was last written to that no current card
+   * renders to anymore. Returns them.
+   */
+  public async removeReplaced(
+    cardId: string,
+    currentOutputs: Set<string>
+  ): Promise<string[]> {
+    const replaced = (this.cards[cardId]?.outputs || []).filter(
+      (output) => !currentOutputs.has(output)
+    );
+    for (const output of replaced) {
+      await fs.remove(path.join(this.outputDir, output));
+    }
+    return replaced;
+  }
+
+  /**
+   * Forgets cards that are no longer in the CSV and deletes their outputs,
+   * unless a current card renders to the same file. Returns the removed ids.
+   */
+  public async removeStale(
+    currentIds: Set<string>,
+    currentOutputs: Set<string>
+  ): Promise<string[]> {
+    const removed: string[] = [];
+    for (const [cardId, entry] of Object.entries(this.cards)) {
+      if (currentIds.has(cardId)) continue;
+
+      for (const output of entry.outputs) {
+        if (!currentOutputs.has(output)) {
+          await fs.remove(path.join(this.outputDir, output));
+        }
+      }
+      delete this.cards[cardId];
+      removed.push(cardId);
+    }
+    return removed;
+  }
+
+  public async save(): Promise<void> {
+    const file: ManifestFile = { version: 2, cards: this.cards };
+    await fs.ensureDir(this.outputDir);
+    await fs.writeJson(this.manifestPath, file, { spaces: 2 });
+  }
+}
@@ -1,4 +1,6 @@
+import { AsyncLocalStorage } from "async_hooks";
 import * as fs from "fs-extra";
+import * as os from "os";
 import csvParser from "csv-parser";
 import {
   createCanvas,
@@ -6,9 +8,117 @@ import {
   registerFont,
   Canvas,
   CanvasRenderingContext2D,
+  Image,
 } from "canvas";
 import * as path from "path";
 import sharp from "sharp";
+import { ArtCache, ArtCacheConfig } from "./art-cache";
+import {
+  ArtCandidate,
+  ArtResolver,
+  ArtSourceChain,
+  ArtSourceConfig,
+  DEFAULT_ART_SOURCES,
+  isRemoteUrl,
+} from "./art-resolver";
+import { ArtStyle, parseCrop, parseFocalPoint, placeArt } from "./art-fit";
+import { BuildManifest, CardFingerprint, hashData } from "./build-manifest";
+import {
+  FontSource,
+  FontVariant,
+  formatFontFamilies,
+  formatGlyphReport,
+  getFontFamilies,
+  getFontVariants,
+  GlyphCoverage,
+  GlyphWarning,
+} from "./fonts";
+import {
+  EffectiveLayout,
+  LayoutOverrides,
+  matchOverrides,
+  resolveLayout,
+} from "./layout";
+import {
+  BUILTIN_Z,
+  DEFAULT_LAYER_Z,
+  drawQrCode,
+  drawShape,
+  getImageFolder,
+  getLayerName,
+  Layer,
+  layerTemplates,
+  traceRoundedRect,
+} from "./layers";
+import {
+  CARD_BACK_NAME,
+  encodeOutput,
+  getOutputExtension,
+  getTargetDir,
+  OutputFormat,
+  OutputTarget,
+} from "./outputs";
+import {
+  AtlasConfig,
+  CardBackConfig,
+  ContactSheetConfig,
+  drawContactSheet,
+  SheetImage,
+  writeAtlas,
+} from "./extras";
+import {
+  CardArt,
+  CardManifestConfig,
+  CardManifestEntry,
+  describeCard,
+  describeOutput,
+  writeCardManifest,
+} from "./card-manifest";
+import {
+  DEFAULT_OUTPUT_FILENAME,
+  FilenameCollisionError,
+  findCollisions,
+  renderFilename,
+  slugify,
+} from "./filenames";
+import { mapWithConcurrency } from "./pool";
+import {
+  checkSafeZone,
+  encodePrintFile,
+  PrintConfig,
+  resolvePrintSettings,
+  SafeZoneError,
+  SheetWriter,
+} from "./print";
+import {
+  TextFitMode,
+  TextOverflow,
+  TextOverflowError,
+  formatOverflowReport,
+} from "./text-fit";
+import {
+  describeRuns,
+  ellipsizeLine,
+  iconNames,
+  parseMarkup,
+  RichLine,
+  TextRun,
+  TextStyle,
+  wrapRuns,
+} from "./rich-text";
+import {
+  CsvValidationError,
+  formatValidationReport,
+  validateCsv,
+  ValidationConfig,
+  ValidationReport,
+} from "./validation";
+import { renderTemplate, templateColumns, toRow } from "./template";
+import {
+  ResolvedTemplate,
+  TemplateResolver,
+  TemplateVariantConfig,
+} from "./templates";
 
 export type TextAlignment =
   | "top-left"
@@ -21,6 +131,9 @@ export type TextAlignment =
   | "bottom-center"
   | "bottom-right";
 
+// The art fingerprint of a card none of whose art sources could be read
+const NO_ART = "none";
+
 export interface CardData {
   Card: string;
   Name: string;
@@ -29,6 +142,7 @@ export interface CardData {
   Lore: string;
   Attack: string;
   Armor: string;
+  Rarity: string;
   Skills: string;
   Address: string;
 }
@@ -39,7 +153,8 @@ export interface TextLayout {
   width: number;
   height: number;
   fontSize: number;
-  fontFamily: string;
+  // One family, or a fallback chain tried in order for missing characters
+  fontFamily: string | string[];
   color: string;
   align: TextAlignment;
   maxWidth?: number;
@@ -48,6 +163,16 @@ export interface TextLayout {
   padding?: number;
   backgroundColor?: string;
   backgroundBlur?: number;
+  // What to do when the wrapped text doesn't fit the box (see text-fit.ts)
+  fit?: TextFitMode;
+  // Smallest font size `fit: "shrink"` may use, defaults to half of fontSize
+  minFontSize?: number;
+  // Render **bold**, *italic*, {color:...} and {icon:...} (see rich-text.ts)
+  markup?: boolean;
+  // Bold a leading "Skill Name:" label
+  boldSkillName?: boolean;
+  // What to draw, with {{Column}} placeholders (see template.ts)
+  text?: string;
 }
 
 export interface CardLayout {
@@ -57,10 +182,60 @@ export interface CardLayout {
   attack: TextLayout;
   armor: TextLayout;
   skills: TextLayout;
+  rarity: TextLayout;
+}
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RarityBorder {
+  width: number;
+  // Two or more colors are drawn as a linear gradient for a foil look
+  colors: string[];
+  // Gradient direction in degrees, 0 = left to right
+  angle?: number;
+}
+
+export interface RarityStyle {
+  // Image drawn over the whole card (after the art, before the text)
+  frameOverlay?: string;
+  border?: RarityBorder;
+  textColors?: Partial<Record<keyof CardLayout, string>>;
+  gem?: Box & { icon: string };
+}
+
+/** A row of icons, one per cost point. */
+export interface CostIcons {
+  // Name of an image in `icons`
+  icon: string;
+  // Icon height and the gap between icons, as multiples of the font size
+  scale?: number;
+  spacing?: number;
+  // Higher costs are drawn as "7×" and a single icon
+  maxIcons?: number;
+}
+
+/** An icon drawn in front of a stat's number. */
+export interface StatBadge {
+  // Name of an image in `icons`
+  icon: string;
+  // Icon height and the gap before the number, as multiples of the font size
+  scale?: number;
+  spacing?: number;
+}
+
+export interface StatIcons {
+  cost?: CostIcons;
+  attack?: StatBadge;
+  armor?: StatBadge;
 }
 
 export interface FontMap {
-  [fontName: string]: string;
+  [fontName: string]: FontSource;
 }
 
 export interface GeneratorConfig {
@@ -75,16 +250,158 @@ export interface GeneratorConfig {
   cardArtY?: number;
   cardArtWidth?: number;
   cardArtHeight?: number;
+  // Fit mode, focal point, masks and effects for the art (see art-fit.ts)
+  cardArtStyle?: ArtStyle;
+  // Layout changes for some Elements, Rarities or Cards (see layout.ts)
+  layoutOverrides?: LayoutOverrides;
   backgroundColor?: string;
   webpQuality?: number;
+  outputFormat?: OutputFormat;
+  // Output path of each card without extension, e.g.
+  // "{{Element}}/{{Card}}-{{Name}}" (see filenames.ts)
+  outputFilename?: string;
+  // Several files per card, each with its own format and size; replaces
+  // outputFormat (see outputs.ts)
+  outputs?: OutputTarget[];
+  templateVariant?: TemplateVariantConfig;
+  rarityStyles?: Record<string, RarityStyle>;
+  // Where card art comes from, tried in order (see art-resolver.ts)
+  artSources?: ArtSourceConfig[];
+  // Replaces `artSources` entirely, e.g. to inject in-memory images
+  artResolver?: ArtResolver;
+  artCache?: ArtCacheConfig;
+  // How many cards are rendered at the same time
+  concurrency?: number;
+  validation?: ValidationConfig;
+  // Images for inline `{icon:name}` markup, by name
+  icons?: Record<string, string>;
+  // Draw cost and stats with icons instead of text
+  statIcons?: StatIcons;
+  // Extra text, images, shapes and QR codes drawn on every card
+  layers?: Layer[];
+  // Bleed, crop marks, CMYK and PDF sheets for `generatePrint` (see print.ts)
+  print?: PrintConfig;
+  // Written after every full build when set (see extras.ts)
+  contactSheet?: ContactSheetConfig;
+  atlas?: AtlasConfig;
+  cardBack?: CardBackConfig;
+  // manifest.json describing every card and its files (see card-manifest.ts)
+  cardManifest?: CardManifestConfig;
+}
+
+// Config keys of the extras, which stay undefined unless configured
+type ExtraKey = "contactSheet" | "atlas" | "cardBack";
+
+export interface GenerateOptions {
+  filter?: (card: CardData, index: number) => boolean;
+  // Re-render even cards whose inputs are unchanged
+  force?: boolean;
+  // Render without validating the CSV first
+  skipValidation?: boolean;
+}
+
+export interface GenerationSummary {
+  total: number;
+  // One path per rendered card, that of its first output target
+  generated: string[];
+  failed: Array<{ card: string; error: string }>;
+  // Cards rendered with the "Image Not Found" placeholder
+  missingArt: string[];
+  // Where the art of each rendered card came from, by Card
+  art: Record<string, CardArt>;
+  // Cards whose inputs hadn't changed since the last build
+  skipped: string[];
+  // Cards no longer in the CSV whose outputs were deleted
+  removed: string[];
+  // Contact sheet, atlas and card back files
+  extras: string[];
+  // Text fields that didn't fit their box, in CSV order
+  overflows: TextOverflow[];
+  // Text fields with characters their fonts can't draw
+  missingGlyphs: GlyphWarning[];
+}
+
+export interface PrintSummary {
+  total: number;
+  // One print file per card, in CSV order
+  generated: string[];
+  // The PDF with every card imposed on sheets
+  sheets: string;
+  pages: number;
+  failed: Array<{ card: string; error: string }>;
+}
+
+export interface RenderedCard {
+  canvas: Canvas;
+  // Source of the art that was drawn, undefined when none could be loaded
+  artSource?: string;
+  // Its file or URL
+  artLocation?: string;
+  overflows: TextOverflow[];
+  missingGlyphs: GlyphWarning[];
+}
+
+type LogLevel = "log" | "warn" | "error";
+
+/** A file written for one output target. */
+export interface WrittenOutput {
+  target: string;
+  path: string;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+interface CardOutcome {
+  card: CardData;
+  outputs?: WrittenOutput[];
+  error?: string;
+  artSource?: string;
+  artLocation?: string;
+  overflows?: TextOverflow[];
+  missingGlyphs?: GlyphWarning[];
+  logs: Array<[LogLevel, unknown[]]>;
+}
+
+// Text problems found while rendering a card
+type TextReport = Pick<RenderedCard, "overflows" | "missingGlyphs">;
+
+// What each built-in field draws unless its layout sets `text`
+const DEFAULT_FIELD_TEXT: Record<keyof CardLayout, string> = {
+  name: "{{Name}}",
+  cost: "{{Cost}}",
+  lore: "{{Lore}}",
+  attack: "ATK {{Attack}}",
+  armor: "HP {{Armor}}",
+  skills: "{{Skills}}",
+  rarity: "{{Rarity}}",
+};
+
+const LAYER_DEBUG_COLOR = "rgba(128, 128, 128, 0.3)";
+
+interface FittedText {
+  lines: RichLine[];
+  fontSize: number;
+  lineHeight: number;
+  maxLines: number;
+  // Why the text doesn't fit, undefined when it does
+  problem?: string;
 }
 
 export class CardGenerator {
-  private config: Required<Omit<GeneratorConfig, "layout">> & {
-    layout: CardLayout;
-  };
+  private config: Required<Omit<GeneratorConfig, "layout" | ExtraKey>> &
+    Pick<GeneratorConfig, ExtraKey> & {
+      layout: CardLayout;
+    };
   private loadedFonts: Set<string>;
+  private registeredFontFiles = new Set<string>();
+  private glyphCoverage = new GlyphCoverage();
   private cardData: CardData[] = [];
+  private templateResolver: TemplateResolver;
+  // Decoded templates, overlays and icons shared by every card in a run
+  private imageCache = new Map<string, Promise<Image>>();
+  // Per-card log buffer, so concurrent renders still print in CSV order
+  private logBuffer = new AsyncLocalStorage<Array<[LogLevel, unknown[]]>>();
 
   constructor(config: GeneratorConfig = {}) {
     this.config = {
@@ -99,11 +416,42 @@ export class CardGenerator {
       cardArtY: config.cardArtY || 120,
       cardArtWidth: config.cardArtWidth || 600,
       cardArtHeight: config.cardArtHeight || 400,
+      cardArtStyle: config.cardArtStyle || {},
+      layoutOverrides: config.layoutOverrides || {},
       backgroundColor: config.backgroundColor || "#ffffff",
       webpQuality: config.webpQuality || 90,
+      outputFormat: config.outputFormat || "webp",
+      outputFilename: config.outputFilename || DEFAULT_OUTPUT_FILENAME,
+      outputs: config.outputs || [],
+      templateVariant: config.templateVariant || {},
+      rarityStyles: config.rarityStyles || {},
+      artSources: config.artSources || DEFAULT_ART_SOURCES,
+      artCache: config.artCache || {},
+      artResolver:
+        config.artResolver ||
+        new ArtSourceChain(
+          config.artSources || DEFAULT_ART_SOURCES,
+          config.artCache?.enabled === false
+            ? undefined
+            : new ArtCache(config.artCache)
+        ),
+      concurrency: config.concurrency || os.cpus().length,
+      validation: config.validation || {},
+      icons: config.icons || {},
+      statIcons: config.statIcons || {},
+      layers: config.layers || [],
+      print: config.print || {},
+      contactSheet: config.contactSheet,
+      atlas: config.atlas,
+      cardBack: config.cardBack,
+      cardManifest: config.cardManifest || {},
     };
 
     this.loadedFonts = new Set<string>();
+    this.templateResolver = new TemplateResolver(
+      this.config.templatesPath,
+      this.config.templateVariant
+    );
   }
 
   private getDefaultLayout(): CardLayout {
@@ -170,6 +518,16 @@ export class CardGenerator {
         align: "center",
         lineHeight: 20,
       },
+      rarity: {
+        x: 500,
+        y: 950,
+        width: 200,
+        height: 60,
+        fontSize: 20,
+        fontFamily: "Stone Serif Semibold",
+        color: "#fff",
+        align: "right",
+      },
     };
   }
 
@@ -181,17 +539,63 @@ export class CardGenerator {
       attack: "rgba(255, 255, 0, 0.3)",
       armor: "rgba(255, 0, 255, 0.3)",
       skills: "rgba(255, 128, 0, 0.3)",
+      rarity: "rgba(0, 255, 255, 0.3)",
     };
   }
 
-  private getTemplatePathForElement(element: string): string {
-    const capitalizedElement =
-      element.charAt(0).toUpperCase() + element.slice(1).toLowerCase();
-    return path.join(this.config.templatesPath, `${capitalizedElement}.png`);
+  public async resolveTemplate(card: CardData): Promise<ResolvedTemplate> {
+    return await this.templateResolver.resolve(card);
+  }
+
+  public clearTemplateCache(): void {
+    this.templateResolver.clearCache();
+  }
+
+  /**
+   * The cost as a row of `statIcons.cost` icons, or as "7×" and one icon
+   * above `maxIcons`. Without a cost icon, falls back to star characters.
+   */
+  private getCostContent(costString: string): string | TextRun[] {
+    const config = this.config.statIcons.cost;
+    if (!config) {
+      return this.convertCostToStars(costString);
+    }
+
+    const match = costString.match(/(\d+)/);
+    const starCount = match ? parseInt(match[1], 10) : 0;
+    const style = { bold: false, italic: false };
+    const icon: TextRun = {
+      kind: "icon",
+      name: config.icon,
+      style,
+      scale: config.scale,
+    };
+
+    if (starCount > (config.maxIcons ?? 10)) {
+      return [{ kind: "text", text: `${starCount}×`, style }, icon];
+    }
+    return Array.from({ length: starCount }, (_, index) => ({
+      ...icon,
+      gap: index < starCount - 1 ? config.spacing ?? 0.25 : 0,
+    }));
   }
 
-  private getImageUrlFromAddress(address: string): string {
-    return `https://beetle-game.s3.us-east-1.amazonaws.com/images/${address}.png`;
+  /** The stat's badge icon followed by its number. */
+  private getStatContent(value: string, badge: StatBadge): TextRun[] {
+    if (!value) {
+      return [];
+    }
+    const style = { bold: false, italic: false };
+    return [
+      {
+        kind: "icon",
+        name: badge.icon,
+        style,
+        scale: badge.scale,
+        gap: badge.spacing ?? 0.2,
+      },
+      { kind: "text", text: value, style },
+    ];
   }
 
   private convertCostToStars(costString: string): string {
@@ -207,11 +611,37 @@ export class CardGenerator {
     return Array(starCount).fill("⭐").join("  ");
   }
 
+  private log(level: LogLevel, ...args: unknown[]): void {
+    const buffer = this.logBuffer.getStore();
+    if (buffer) {
+      buffer.push([level, args]);
+    } else {
+      console[level](...args);
+    }
+  }
+
+  private loadCachedImage(src: string): Promise<Image> {
+    let image = this.imageCache.get(src);
+    if (!image) {
+      image = loadImage(src);
+      // Don't keep failures around, the file may be fixed later
+      image.catch(() => this.imageCache.delete(src));
+      this.imageCache.set(src, image);
+    }
+    return image;
+  }
+
+  public clearImageCache(): void {
+    this.imageCache.clear();
+  }
+
   public async clearAllCaches(): Promise<void> {
     console.log("🧹 Clearing all caches...");
     this.loadedFonts.clear();
+    this.glyphCoverage.clear();
+    this.imageCache.clear();
+    this.clearTemplateCache();
     sharp.cache(false);
-    sharp.concurrency(1);
 
     Object.keys(require.cache).forEach((key) => {
       if (
@@ -231,6 +661,74 @@ export class CardGenerator {
     console.log("✅ All caches cleared");
   }
 
+  private async loadFontVariant(
+    fontName: string,
+    variant: FontVariant
+  ): Promise<void> {
+    const fontPath = variant.path;
+    const description = [variant.weight, variant.style]
+      .filter(Boolean)
+      .join(" ");
+    console.log(
+      `\n📝 Processing font: ${fontName}${
+        description ? ` (${description})` : ""
+      }`
+    );
+    console.log(`   Path: ${fontPath}`);
+
+    try {
+      const stats = await fs.stat(fontPath);
+      if (!stats.isFile()) {
+        console.error(`❌ Font path exists but is not a file: ${fontPath}`);
+        return;
+      }
+      console.log(
+        `✅ Font file exists: ${fontPath} (${Math.round(stats.size / 1024)}KB)`
+      );
+    } catch (error) {
+      console.error(`❌ Font file not found: ${fontPath}`);
+      return;
+    }
+
+    if (this.registeredFontFiles.has(`${fontName}:${fontPath}`)) {
+      console.log(`   ⏭️  Already loaded, skipping`);
+      return;
+    }
+
+    try {
+      registerFont(fontPath, {
+        family: fontName,
+        weight: variant.weight,
+        style: variant.style,
+      });
+      this.registeredFontFiles.add(`${fontName}:${fontPath}`);
+      this.loadedFonts.add(fontName);
+      console.log(`   ✅ Registered successfully as "${fontName}"`);
+
+      const testCanvas = createCanvas(100, 50);
+      const testCtx = testCanvas.getContext("2d");
+      testCtx.font = `20px ${formatFontFamilies([fontName])}`;
+      testCtx.fillStyle = "black";
+      testCtx.fillText("Test", 10, 30);
+      console.log(`   ✅ Font rendering test passed`);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      console.error(`   ❌ Failed to register: ${errorMessage}`);
+      return;
+    }
+
+    try {
+      await this.glyphCoverage.addFont(fontName, fontPath);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      console.warn(
+        `   ⚠️  Can't read the character map, glyph coverage isn't checked: ${errorMessage}`
+      );
+    }
+  }
+
   public async loadFonts(): Promise<void> {
     console.log("🔤 Loading fonts...");
 
@@ -239,46 +737,9 @@ export class CardGenerator {
       return;
     }
 
-    for (const [fontName, fontPath] of Object.entries(this.config.fonts)) {
-      console.log(`\n📝 Processing font: ${fontName}`);
-      console.log(`   Path: ${fontPath}`);
-
-      try {
-        const stats = await fs.stat(fontPath);
-        if (!stats.isFile()) {
-          console.error(`❌ Font path exists but is not a file: ${fontPath}`);
-          continue;
-        }
-        console.log(
-          `✅ Font file exists: ${fontPath} (${Math.round(
-            stats.size / 1024
-          )}KB)`
-        );
-      } catch (error) {
-        console.error(`❌ Font file not found: ${fontPath}`);
-        continue;
-      }
-
-      if (this.loadedFonts.has(fontName)) {
-        console.log(`   ⏭️  Already loaded, skipping`);
-        continue;
-      }
-
-      try {
-        registerFont(fontPath, { family: fontName });
-        this.loadedFonts.add(fontName);
-        console.log(`   ✅ Registered successfully as "${fontName}"`);
-
-        const testCanvas = createCanvas(100, 50);
-        const testCtx = testCanvas.getContext("2d");
-        testCtx.font = `20px ${fontName}`;
-        testCtx.fillStyle = "black";
-        testCtx.fillText("Test", 10, 30);
-        console.log(`   ✅ Font rendering test passed`);
-      } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : "Unknown error";
-        console.error(`   ❌ Failed to register: ${errorMessage}`);
+    for (const [fontName, source] of Object.entries(this.config.fonts)) {
+      for (const variant of getFontVariants(source)) {
+        await this.loadFontVariant(fontName, variant);
       }
     }
 
@@ -309,27 +770,103 @@ export class CardGenerator {
     });
   }
 
-  private wrapText(
+  /**
+   * Parses and checks the CSV. Unless configured otherwise, the allowed
+   * elements are those that have a template.
+   */
+  public async validateCSV(): Promise<ValidationReport> {
+    let elements = this.config.validation.elements;
+    if (!elements) {
+      const templates = await this.templateResolver.listTemplates();
+      elements = [...templates.values()].map((template) => template.element);
+    }
+    return await validateCsv(this.config.csvPath, {
+      ...this.config.validation,
+      elements,
+      templateColumns: this.getTemplateColumns(),
+    });
+  }
+
+  /** Prints the CSV validation report and throws if it has errors. */
+  private async assertValidCsv(): Promise<void> {
+    const report = await this.validateCSV();
+    if (report.issues.length) {
+      console.log(formatValidationReport(report));
+    }
+    if (report.errorCount) {
+      throw new CsvValidationError(report);
+    }
+  }
+
+  /** The CSV columns read by `{{Column}}` templates in the layout and layers. */
+  private getTemplateColumns(): string[] {
+    const { layout, layoutOverrides, layers } = this.config;
+    const overrideLayouts = [
+      layoutOverrides.elements,
+      layoutOverrides.rarities,
+      layoutOverrides.cards,
+    ].flatMap((group) =>
+      Object.values(group || {}).flatMap((override) =>
+        Object.values(override.layout || {})
+      )
+    );
+    const templates = [
+      ...[...Object.values(layout), ...overrideLayouts].map(
+        (textLayout) => textLayout?.text || ""
+      ),
+      ...layers.flatMap(layerTemplates),
+      this.config.contactSheet?.label || "",
+      this.config.outputFilename,
+    ];
+    return [...new Set(templates.flatMap(templateColumns))];
+  }
+
+  private getFontString(
+    style: TextStyle,
+    fontSize: number,
+    fontFamily: string
+  ): string {
+    return `${style.italic ? "italic " : ""}${
+      style.bold ? "bold " : ""
+    }${fontSize}px ${fontFamily}`;
+  }
+
+  /** Width of a text run, or of an inline icon scaled to the font size. */
+  private measureRun(
     ctx: CanvasRenderingContext2D,
-    text: string,
-    maxWidth: number
-  ): string[] {
-    const words = text.split(" ");
-    const lines: string[] = [];
-    let currentLine = words[0] || "";
-
-    for (let i = 1; i < words.length; i++) {
-      const word = words[i];
-      const width = ctx.measureText(currentLine + " " + word).width;
-      if (width < maxWidth) {
-        currentLine += " " + word;
-      } else {
-        lines.push(currentLine);
-        currentLine = word;
+    run: TextRun,
+    fontSize: number,
+    fontFamily: string,
+    icons: Map<string, Image>
+  ): number {
+    if (run.kind === "icon") {
+      const icon = icons.get(run.name);
+      const height = fontSize * (run.scale ?? 1);
+      return icon
+        ? (height * icon.width) / icon.height + fontSize * (run.gap ?? 0)
+        : 0;
+    }
+    ctx.font = this.getFontString(run.style, fontSize, fontFamily);
+    return ctx.measureText(run.text).width;
+  }
+
+  /** Loads the inline icons referenced by `runs`, skipping unknown ones. */
+  private async loadIcons(runs: TextRun[]): Promise<Map<string, Image>> {
+    const icons = new Map<string, Image>();
+    for (const name of new Set(iconNames(runs))) {
+      const iconPath = this.config.icons[name];
+      if (!iconPath) {
+        this.log(
+          "warn",
+          `⚠️  Unknown icon "${name}" (known: ${
+            Object.keys(this.config.icons).join(", ") || "none"
+          })`
+        );
+        continue;
       }
+      icons.set(name, await this.loadCachedImage(iconPath));
     }
-    lines.push(currentLine);
-    return lines;
+    return icons;
   }
 
   private getTextPosition(layout: TextLayout): { x: number; y: number } {
@@ -394,8 +931,10 @@ export class CardGenerator {
     ctx.font = "14px Arial";
     ctx.textAlign = "left";
     ctx.textBaseline = "top";
-    const fontStatus = this.loadedFonts.has(layout.fontFamily) ? "✓" : "✗";
-    const labelText = `${label} (${layout.fontFamily} ${fontStatus})`;
+    const fontStatus = getFontFamilies(layout.fontFamily)
+      .map((family) => `${family} ${this.loadedFonts.has(family) ? "✓" : "✗"}`)
+      .join(", ");
+    const labelText = `${label} (${fontStatus})`;
     ctx.fillText(labelText, x + 4, y + 16);
   }
 
@@ -418,14 +957,99 @@ export class CardGenerator {
     ctx.restore();
   }
 
-  private drawText(
+  /**
+   * Wraps `runs` at the given font size and checks them against the box:
+   * at most as many lines as fit the height, none wider than `maxWidth`.
+   */
+  private wrapToFit(
+    runs: TextRun[],
+    layout: TextLayout,
+    fontSize: number,
+    maxWidth: number,
+    maxHeight: number,
+    measure: (run: TextRun, fontSize: number) => number
+  ): FittedText {
+    const lines = wrapRuns(runs, maxWidth, (run) => measure(run, fontSize));
+    const lineHeight =
+      ((layout.lineHeight || layout.fontSize * 1.2) * fontSize) /
+      layout.fontSize;
+    const maxLines = Math.max(1, Math.floor(maxHeight / lineHeight + 1e-6));
+    const widest = Math.max(...lines.map((line) => line.width));
+
+    let problem: string | undefined;
+    if (lines.length > maxLines) {
+      problem = `needs ${lines.length} lines at ${fontSize}px, room for ${maxLines}`;
+    } else if (widest > maxWidth) {
+      problem = `a line is ${Math.ceil(
+        widest
+      )}px wide at ${fontSize}px, room for ${Math.floor(maxWidth)}px`;
+    }
+    return { lines, fontSize, lineHeight, maxLines, problem };
+  }
+
+  /**
+   * Lays out `runs` according to the layout's fit mode. The returned lines
+   * may still not fit (`problem` is set); `error` mode is handled by the
+   * caller.
+   */
+  private fitText(
+    runs: TextRun[],
+    layout: TextLayout,
+    maxWidth: number,
+    maxHeight: number,
+    measure: (run: TextRun, fontSize: number) => number
+  ): FittedText {
+    const minFontSize =
+      layout.fit === "shrink"
+        ? Math.min(
+            layout.minFontSize ?? Math.ceil(layout.fontSize / 2),
+            layout.fontSize
+          )
+        : layout.fontSize;
+
+    let fitted: FittedText;
+    let fontSize = layout.fontSize;
+    do {
+      fitted = this.wrapToFit(
+        runs,
+        layout,
+        fontSize--,
+        maxWidth,
+        maxHeight,
+        measure
+      );
+    } while (fitted.problem && fontSize >= minFontSize);
+
+    if (fitted.problem && layout.fit === "ellipsis") {
+      const measureAtSize = (run: TextRun) => measure(run, fitted.fontSize);
+      const kept = fitted.lines.slice(0, fitted.maxLines);
+      const truncated = kept.map((line, index) =>
+        line.width > maxWidth ||
+        (index === kept.length - 1 && kept.length < fitted.lines.length)
+          ? ellipsizeLine(line, maxWidth, measureAtSize)
+          : line
+      );
+      return {
+        ...fitted,
+        lines: truncated,
+        problem: `truncated, ${fitted.problem}`,
+      };
+    }
+    return fitted;
+  }
+
+  /**
+   * Draws styled runs inside their layout box and returns how they were
+   * laid out, including why they didn't fit.
+   */
+  private async drawText(
     ctx: CanvasRenderingContext2D,
-    text: string,
+    runs: TextRun[],
     layout: TextLayout,
     debugMode: boolean = false,
     debugColor?: string,
     debugLabel?: string
-  ): void {
+  ): Promise<FittedText> {
     // Draw background first, so it's behind everything
     this.drawTextBackground(ctx, layout);
 
@@ -433,33 +1057,23 @@ export class CardGenerator {
       this.drawBoundingBox(ctx, layout, debugColor, debugLabel);
     }
 
-    const fontFamily = this.loadedFonts.has(layout.fontFamily)
-      ? layout.fontFamily
-      : "Arial";
-
-    if (fontFamily !== layout.fontFamily && debugMode) {
-      console.warn(
-        `⚠️  Font "${layout.fontFamily}" not loaded, falling back to "${fontFamily}"`
-      );
-    }
-
-    const fontString = `${layout.fontSize}px ${fontFamily}`;
-    ctx.font = fontString;
-    ctx.fillStyle = layout.color;
-    ctx.textAlign = this.getCanvasTextAlign(layout.align);
-    ctx.textBaseline = this.getCanvasTextBaseline(layout.align);
+    // Configured fonts that failed to load are dropped from the chain;
+    // other names are left for the system to resolve
+    const chain = getFontFamilies(layout.fontFamily);
+    const families = chain.filter(
+      (family) => this.loadedFonts.has(family) || !(family in this.config.fonts)
+    );
+    const fontFamily = formatFontFamilies(
+      families.length ? families : ["Arial"]
+    );
 
-    if (debugMode) {
-      console.log(
-        `🔤 Drawing text: "${text.substring(0, 20)}${
-          text.length > 20 ? "..." : ""
-        }"`
-      );
-      console.log(`   Font: ${fontString}`);
-      console.log(
-        `   Available fonts: [${Array.from(this.loadedFonts).join(", ")}]`
+    if (families.length !== chain.length && debugMode) {
+      this.log(
+        "warn",
+        `⚠️  Font "${chain
+          .filter((family) => !families.includes(family))
+          .join(", ")}" not loaded, falling back to ${fontFamily}`
       );
-      console.log(`   Color: ${layout.color}`);
     }
 
     // Apply padding for text rendering
@@ -475,200 +1089,974 @@ export class CardGenerator {
     const position = this.getTextPosition(paddedLayout);
     const maxWidth = paddedLayout.maxWidth || paddedLayout.width;
 
-    if (layout.maxWidth || text.includes(" ")) {
-      const lines = this.wrapText(ctx, text, maxWidth);
-      const lineHeight = layout.lineHeight || layout.fontSize * 1.2;
+    const icons = await this.loadIcons(runs);
+    const fitted = this.fitText(
+      runs,
+      layout,
+      maxWidth,
+      paddedLayout.height,
+      (run, fontSize) => this.measureRun(ctx, run, fontSize, fontFamily, icons)
+    );
+    const { lines, lineHeight, fontSize } = fitted;
 
-      let startY = position.y;
-      const totalTextHeight = lines.length * lineHeight;
+    const fontString = `${fontSize}px ${fontFamily}`;
+    ctx.textAlign = "left";
+    ctx.textBaseline = this.getCanvasTextBaseline(layout.align);
 
-      if (paddedLayout.align.includes("bottom")) {
-        startY = position.y - totalTextHeight + lineHeight;
-      } else if (
-        paddedLayout.align === "center" ||
-        paddedLayout.align === "left" ||
-        paddedLayout.align === "right"
-      ) {
-        startY = position.y - totalTextHeight / 2 + lineHeight / 2;
-      }
+    if (debugMode) {
+      const text = describeRuns(runs);
+      this.log(
+        "log",
+        `🔤 Drawing text: "${text.substring(0, 20)}${
+          text.length > 20 ? "..." : ""
+        }"`
+      );
+      this.log(
+        "log",
+        `   Font: ${fontString}${
+          fontSize !== layout.fontSize
+            ? ` (shrunk from ${layout.fontSize}px to fit)`
+            : ""
+        }`
+      );
+      this.log(
+        "log",
+        `   Available fonts: [${Array.from(this.loadedFonts).join(", ")}]`
+      );
+      this.log("log", `   Color: ${layout.color}`);
+    }
 
-      lines.forEach((line, index) => {
-        const y = startY + index * lineHeight;
-        ctx.fillText(line, position.x, y);
-      });
-    } else {
-      ctx.fillText(text, position.x, position.y);
+    let startY = position.y;
+    const totalTextHeight = lines.length * lineHeight;
+
+    if (paddedLayout.align.includes("bottom")) {
+      startY = position.y - totalTextHeight + lineHeight;
+    } else if (
+      paddedLayout.align === "center" ||
+      paddedLayout.align === "left" ||
+      paddedLayout.align === "right"
+    ) {
+      startY = position.y - totalTextHeight / 2 + lineHeight / 2;
     }
+
+    const textAlign = this.getCanvasTextAlign(layout.align);
+    lines.forEach((line, index) => {
+      const y = startY + index * lineHeight;
+      let x = position.x;
+      if (textAlign === "center") x -= line.width / 2;
+      if (textAlign === "right") x -= line.width;
+
+      for (const piece of line.pieces) {
+        if (piece.kind === "icon") {
+          const icon = icons.get(piece.name);
+          if (icon) {
+            // Icons are centered on the line, scaled relative to the font
+            const height = fontSize * (piece.scale ?? 1);
+            const middle =
+              ctx.textBaseline === "top"
+                ? y + fontSize / 2
+                : ctx.textBaseline === "bottom"
+                ? y - fontSize / 2
+                : y;
+            ctx.drawImage(
+              icon,
+              x,
+              middle - height / 2,
+              piece.width - fontSize * (piece.gap ?? 0),
+              height
+            );
+          }
+        } else {
+          ctx.font = this.getFontString(piece.style, fontSize, fontFamily);
+          ctx.fillStyle = piece.style.color || layout.color;
+          ctx.fillText(piece.text, x, y);
+        }
+        x += piece.width;
+      }
+    });
+
+    return fitted;
   }
 
   private async drawCardArt(
     ctx: CanvasRenderingContext2D,
-    imagePath: string,
+    card: CardData,
+    box: Box,
     debugMode: boolean = false
-  ): Promise<void> {
-    try {
-      const image = await loadImage(imagePath);
-      ctx.drawImage(
-        image,
-        this.config.cardArtX,
-        this.config.cardArtY,
-        this.config.cardArtWidth,
-        this.config.cardArtHeight
-      );
+  ): Promise<ArtCandidate | undefined> {
+    const candidates = await this.getArtCandidates(card);
+    if (!candidates.length) {
+      this.log("warn", `No card art source available for card ${card.Card}`);
+      return undefined;
+    }
 
-      if (debugMode) {
-        ctx.strokeStyle = "rgba(0, 255, 0, 0.8)";
-        ctx.lineWidth = 3;
-        ctx.strokeRect(
-          this.config.cardArtX,
-          this.config.cardArtY,
-          this.config.cardArtWidth,
-          this.config.cardArtHeight
+    const failures: string[] = [];
+    for (const candidate of candidates) {
+      try {
+        const image = await loadImage(
+          typeof candidate.data === "function"
+            ? await candidate.data()
+            : candidate.data
         );
-
-        ctx.fillStyle = "rgba(0, 255, 0, 0.9)";
-        ctx.font = "16px Arial";
-        ctx.textAlign = "left";
-        ctx.textBaseline = "top";
-        ctx.fillText(
-          "Card Art",
-          this.config.cardArtX + 4,
-          this.config.cardArtY + 20
+        await this.drawArtImage(ctx, image, card, box);
+        this.log(
+          "log",
+          `🖼️  Art (${candidate.source}): ${this.describeArt(candidate)}`
         );
-      }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      console.warn(`Failed to load image ${imagePath}: ${errorMessage}`);
 
-      ctx.fillStyle = "#ccc";
-      ctx.fillRect(
-        this.config.cardArtX,
-        this.config.cardArtY,
-        this.config.cardArtWidth,
-        this.config.cardArtHeight
-      );
-      ctx.fillStyle = "#666";
-      ctx.font = "16px Stone Serif Semibold";
-      ctx.textAlign = "center";
-      ctx.textBaseline = "middle";
-      ctx.fillText(
-        "Image Not Found",
-        this.config.cardArtX + this.config.cardArtWidth / 2,
-        this.config.cardArtY + this.config.cardArtHeight / 2
-      );
+        if (debugMode) {
+          ctx.strokeStyle = "rgba(0, 255, 0, 0.8)";
+          ctx.lineWidth = 3;
+          ctx.strokeRect(box.x, box.y, box.width, box.height);
 
-      if (debugMode) {
-        ctx.strokeStyle = "rgba(255, 0, 0, 0.8)";
-        ctx.lineWidth = 3;
-        ctx.strokeRect(
-          this.config.cardArtX,
-          this.config.cardArtY,
-          this.config.cardArtWidth,
-          this.config.cardArtHeight
+          ctx.fillStyle = "rgba(0, 255, 0, 0.9)";
+          ctx.font = "16px Arial";
+          ctx.textAlign = "left";
+          ctx.textBaseline = "top";
+          ctx.fillText(`Card Art (${candidate.source})`, box.x + 4, box.y + 20);
+        }
+        return candidate;
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        failures.push(
+          `${candidate.source} ${this.describeArt(candidate)}: ${errorMessage}`
         );
       }
     }
+
+    this.log(
+      "warn",
+      `Failed to load art for card ${card.Card}:\n  ${failures.join("\n  ")}`
+    );
+
+    ctx.fillStyle = "#ccc";
+    ctx.fillRect(box.x, box.y, box.width, box.height);
+    ctx.fillStyle = "#666";
+    ctx.font = "16px Stone Serif Semibold";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(
+      "Image Not Found",
+      box.x + box.width / 2,
+      box.y + box.height / 2
+    );
+
+    if (debugMode) {
+      ctx.strokeStyle = "rgba(255, 0, 0, 0.8)";
+      ctx.lineWidth = 3;
+      ctx.strokeRect(box.x, box.y, box.width, box.height);
+    }
+    return undefined;
   }
 
-  private async drawElementTemplate(
+  /**
+   * Draws card art into `box` with the fit mode, focal point, crop, mask,
+   * shadow and vignette of `cardArtStyle`.
+   */
+  private async drawArtImage(
     ctx: CanvasRenderingContext2D,
-    element: string
+    image: Image,
+    card: CardData,
+    box: Box
   ): Promise<void> {
-    const templatePath = this.getTemplatePathForElement(element);
+    const style = this.config.cardArtStyle;
+    const row = toRow(card);
+
+    let focus = style.focus;
+    const focusValue = style.focusColumn && row[style.focusColumn]?.trim();
+    if (focusValue) {
+      const parsed = parseFocalPoint(focusValue);
+      if (parsed) {
+        focus = parsed;
+      } else {
+        this.log(
+          "warn",
+          `⚠️  Ignoring ${style.focusColumn} "${focusValue}", expected a focal point like "0.5 0.2"`
+        );
+      }
+    }
 
-    try {
-      const template = await loadImage(templatePath);
+    const cropValue = style.cropColumn && row[style.cropColumn]?.trim();
+    const crop = cropValue ? parseCrop(cropValue) : null;
+    if (cropValue && !crop) {
+      this.log(
+        "warn",
+        `⚠️  Ignoring ${style.cropColumn} "${cropValue}", expected "x y width height"`
+      );
+    }
+
+    const { source, target } = placeArt(
+      image.width,
+      image.height,
+      box,
+      style.fit,
+      focus,
+      crop || undefined
+    );
+
+    if (!style.radius && !style.mask && !style.shadow && !style.vignette) {
       ctx.drawImage(
-        template,
-        0,
-        0,
-        this.config.cardWidth,
-        this.config.cardHeight
+        image,
+        source.x,
+        source.y,
+        source.width,
+        source.height,
+        target.x,
+        target.y,
+        target.width,
+        target.height
       );
-      console.log(`Loaded template: ${templatePath}`);
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      console.warn(`Failed to load template ${templatePath}: ${errorMessage}`);
-      console.warn("Using background color only");
+      return;
     }
-  }
 
-  private sanitizeFilename(name: string): string {
-    return name.replace(/[^a-z0-9]/gi, "_").toLowerCase();
-  }
+    // Vignette and masks are applied on a canvas of their own, so they only
+    // touch the art and the shadow follows the art's final shape
+    const art = createCanvas(Math.ceil(box.width), Math.ceil(box.height));
+    const artCtx = art.getContext("2d");
+    artCtx.drawImage(
+      image,
+      source.x,
+      source.y,
+      source.width,
+      source.height,
+      target.x - box.x,
+      target.y - box.y,
+      target.width,
+      target.height
+    );
 
-  private async convertToWebP(
+    if (style.vignette) {
+      const { color = "#000", strength = 0.6, start = 0.5 } = style.vignette;
+      const centerX = box.width / 2;
+      const centerY = box.height / 2;
+      const gradient = artCtx.createRadialGradient(
+        centerX,
+        centerY,
+        Math.hypot(centerX, centerY) * start,
+        centerX,
+        centerY,
+        Math.hypot(centerX, centerY)
+      );
+      gradient.addColorStop(0, "rgba(0, 0, 0, 0)");
+      gradient.addColorStop(1, color);
+      artCtx.globalCompositeOperation = "source-atop";
+      artCtx.globalAlpha = strength;
+      artCtx.fillStyle = gradient;
+      artCtx.fillRect(0, 0, box.width, box.height);
+      artCtx.globalAlpha = 1;
+    }
+
+    artCtx.globalCompositeOperation = "destination-in";
+    if (style.radius) {
+      artCtx.beginPath();
+      traceRoundedRect(
+        artCtx,
+        { x: 0, y: 0, width: box.width, height: box.height },
+        style.radius
+      );
+      artCtx.fill();
+    }
+    if (style.mask) {
+      const mask = await this.loadCachedImage(style.mask);
+      artCtx.drawImage(mask, 0, 0, box.width, box.height);
+    }
+
+    ctx.save();
+    if (style.shadow) {
+      const {
+        color = "rgba(0, 0, 0, 0.5)",
+        blur = 20,
+        offsetX = 0,
+        offsetY = 10,
+      } = style.shadow;
+      ctx.shadowColor = color;
+      ctx.shadowBlur = blur;
+      ctx.shadowOffsetX = offsetX;
+      ctx.shadowOffsetY = offsetY;
+    }
+    ctx.drawImage(art, box.x, box.y);
+    ctx.restore();
+  }
+
+  public async getArtCandidates(card: CardData): Promise<ArtCandidate[]> {
+    return await this.config.artResolver.getCandidates(card);
+  }
+
+  private describeArt(candidate: ArtCandidate): string {
+    if (candidate.location) return candidate.location;
+    return typeof candidate.data === "string"
+      ? candidate.data
+      : "<in-memory image>";
+  }
+
+  private async drawElementTemplate(
+    ctx: CanvasRenderingContext2D,
+    card: CardData
+  ): Promise<void> {
+    const template = await this.resolveTemplate(card);
+
+    try {
+      const image = await this.loadCachedImage(template.path);
+      ctx.drawImage(image, 0, 0, this.config.cardWidth, this.config.cardHeight);
+      this.log(
+        "log",
+        `Loaded template: ${template.path} (variant "${template.variant}")`
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new Error(
+        `Failed to load template ${template.path}: ${errorMessage}`
+      );
+    }
+  }
+
+  private async drawRarityStyle(
+    ctx: CanvasRenderingContext2D,
+    style: RarityStyle,
+    debugMode: boolean = false
+  ): Promise<void> {
+    if (style.frameOverlay) {
+      const overlay = await this.loadCachedImage(style.frameOverlay);
+      ctx.drawImage(
+        overlay,
+        0,
+        0,
+        this.config.cardWidth,
+        this.config.cardHeight
+      );
+    }
+
+    if (style.border) {
+      this.drawRarityBorder(ctx, style.border);
+    }
+
+    if (style.gem) {
+      const { icon, x, y, width, height } = style.gem;
+      const gem = await this.loadCachedImage(icon);
+      ctx.drawImage(gem, x, y, width, height);
+
+      if (debugMode) {
+        ctx.strokeStyle = "rgba(0, 255, 255, 0.8)";
+        ctx.lineWidth = 3;
+        ctx.strokeRect(x, y, width, height);
+      }
+    }
+  }
+
+  private drawRarityBorder(
+    ctx: CanvasRenderingContext2D,
+    border: RarityBorder
+  ): void {
+    const { cardWidth, cardHeight } = this.config;
+    const { width, colors, angle = 0 } = border;
+
+    if (colors.length > 1) {
+      const radians = (angle * Math.PI) / 180;
+      const dx = (Math.cos(radians) * cardWidth) / 2;
+      const dy = (Math.sin(radians) * cardHeight) / 2;
+      const gradient = ctx.createLinearGradient(
+        cardWidth / 2 - dx,
+        cardHeight / 2 - dy,
+        cardWidth / 2 + dx,
+        cardHeight / 2 + dy
+      );
+      colors.forEach((color, index) =>
+        gradient.addColorStop(index / (colors.length - 1), color)
+      );
+      ctx.strokeStyle = gradient;
+    } else {
+      ctx.strokeStyle = colors[0] || "transparent";
+    }
+
+    ctx.lineWidth = width;
+    ctx.strokeRect(width / 2, width / 2, cardWidth - width, cardHeight - width);
+  }
+
+  /** A card's output path without extension, from `outputFilename`. */
+  private getOutputBasename(card: CardData): string {
+    return (
+      renderFilename(this.config.outputFilename, toRow(card)) || "untitled"
+    );
+  }
+
+  /**
+   * Debug renders get their own name, so they never replace (or pass for) a
+   * card's real output, which the build manifest vouches for.
+   */
+  private getRenderBasename(card: CardData, debugMode: boolean): string {
+    const basename = this.getOutputBasename(card);
+    return debugMode ? `${basename}-debug` : basename;
+  }
+
+  /**
+   * Throws if two of `cards`, or a card and a card back, would be written to
+   * the same file.
+   */
+  private assertUniqueFilenames(cards: CardData[]): void {
+    const backs = this.config.cardBack ? this.getCardBacks(cards) : [];
+    const collisions = findCollisions([
+      ...cards.map((card) => ({
+        card: card.Card,
+        name: this.getOutputBasename(card),
+      })),
+      ...backs.map(({ basename }) => ({ card: "cardBack", name: basename })),
+    ]);
+    if (collisions.length) {
+      throw new FilenameCollisionError(collisions);
+    }
+  }
+
+  /**
+   * The configured output targets, or a single one written straight into
+   * the output directory from `outputFormat` and `webpQuality`.
+   */
+  public getOutputTargets(): OutputTarget[] {
+    if (this.config.outputs.length) {
+      return this.config.outputs;
+    }
+    return [
+      {
+        name: this.config.outputFormat,
+        format: this.config.outputFormat,
+        dir: "",
+        quality: this.config.webpQuality,
+      },
+    ];
+  }
+
+  /** One file per output target, relative to the output directory. */
+  private getTargetFiles(basename: string): string[] {
+    return this.getOutputTargets().map((target) =>
+      path.join(
+        getTargetDir(target),
+        `${basename}.${getOutputExtension(target.format)}`
+      )
+    );
+  }
+
+  /** A card's output files, relative to the output directory. */
+  private getOutputFiles(card: CardData): string[] {
+    return this.getTargetFiles(this.getOutputBasename(card));
+  }
+
+  /** Encodes a rendered image for every output target and writes the files. */
+  private async writeOutputs(
+    canvas: Canvas,
+    basename: string
+  ): Promise<WrittenOutput[]> {
+    const png = canvas.toBuffer("image/png");
+    const files = this.getTargetFiles(basename);
+    const written: WrittenOutput[] = [];
+
+    for (const [index, target] of this.getOutputTargets().entries()) {
+      const outputPath = path.join(this.config.outputDir, files[index]);
+      const { data, width, height } = await encodeOutput(
+        png,
+        target,
+        this.config.webpQuality
+      );
+      await fs.outputFile(outputPath, data);
+      written.push({
+        target: target.name,
+        path: outputPath,
+        width,
+        height,
+        bytes: data.length,
+      });
+    }
+    return written;
+  }
+
+  private hashFile(
+    filePath: string,
+    fileHashes: Map<string, Promise<string>>
+  ): Promise<string> {
+    let hash = fileHashes.get(filePath);
+    if (!hash) {
+      hash = fs.readFile(filePath).then(hashData);
+      fileHashes.set(filePath, hash);
+    }
+    return hash;
+  }
+
+  private async fingerprintArt(
+    card: CardData,
+    fileHashes: Map<string, Promise<string>>
+  ): Promise<string> {
+    for (const candidate of await this.getArtCandidates(card)) {
+      try {
+        // Cached remote art is identified without downloading it
+        if (candidate.fingerprint) {
+          return hashData(await candidate.fingerprint());
+        }
+        if (typeof candidate.data === "function") {
+          return hashData(await candidate.data());
+        }
+        if (typeof candidate.data !== "string") {
+          return hashData(candidate.data);
+        }
+        // With the art cache off, URLs are identified by the URL alone
+        if (isRemoteUrl(candidate.data)) {
+          return hashData(candidate.data);
+        }
+        return await this.hashFile(candidate.data, fileHashes);
+      } catch (error) {
+        // Same as rendering: fall through to the next candidate
+      }
+    }
+    return NO_ART;
+  }
+
+  /**
+   * Hashes every input that affects how a card looks. Returns undefined when
+   * an input can't be resolved, which makes the card always re-render (and
+   * report the actual error).
+   */
+  private async fingerprintCard(
+    card: CardData,
+    fileHashes: Map<string, Promise<string>>
+  ): Promise<CardFingerprint | undefined> {
+    try {
+      const {
+        templatesPath,
+        csvPath,
+        outputDir,
+        fonts,
+        artSources,
+        artCache,
+        artResolver,
+        concurrency,
+        layout,
+        cardArtX,
+        cardArtY,
+        cardArtWidth,
+        cardArtHeight,
+        layoutOverrides,
+        print,
+        contactSheet,
+        atlas,
+        cardBack,
+        cardManifest,
+        outputFilename,
+        ...settings
+      } = this.config;
+      // Only the overrides that apply to this card affect it
+      const { applied, ...effectiveLayout } = this.getEffectiveLayout(card);
+      const renderSettings = { ...settings, effectiveLayout };
+
+      const assetFiles = [(await this.resolveTemplate(card)).path];
+      const rarityStyle = this.config.rarityStyles[card.Rarity];
+      if (rarityStyle?.frameOverlay) assetFiles.push(rarityStyle.frameOverlay);
+      if (rarityStyle?.gem) assetFiles.push(rarityStyle.gem.icon);
+      // Any field may use inline icons, so hash every icon the row mentions
+      const fieldRuns = parseMarkup(Object.values(card).join("\n"), {
+        markup: true,
+      });
+      const iconUsed = [
+        ...iconNames(fieldRuns),
+        ...Object.values(this.config.statIcons).map((stat) => stat?.icon),
+      ];
+      for (const name of new Set(iconUsed)) {
+        if (name && this.config.icons[name]) {
+          assetFiles.push(this.config.icons[name]);
+        }
+      }
+      if (this.config.cardArtStyle.mask) {
+        assetFiles.push(this.config.cardArtStyle.mask);
+      }
+      for (const layer of this.config.layers) {
+        const src =
+          layer.type === "image" ? renderTemplate(layer.src, toRow(card)) : "";
+        // Remote images are identified by their URL alone, like card art
+        if (src && !isRemoteUrl(src)) {
+          assetFiles.push(src);
+        }
+      }
+
+      const fontHashes = await Promise.all(
+        Object.values(fonts)
+          .flatMap(getFontVariants)
+          .map((variant) => this.hashFile(variant.path, fileHashes))
+      );
+      const assetHashes = await Promise.all(
+        assetFiles.map(
+          async (file) => `${file}:${await this.hashFile(file, fileHashes)}`
+        )
+      );
+
+      return {
+        row: hashData(JSON.stringify(card)),
+        layout: hashData(JSON.stringify(renderSettings)),
+        assets: hashData(assetHashes.join("\n")),
+        fonts: hashData(fontHashes.join("\n")),
+        art: await this.fingerprintArt(card, fileHashes),
+      };
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private async convertToWebP(
     pngBuffer: Buffer,
     quality: number
   ): Promise<Buffer> {
     return await sharp(pngBuffer).webp({ quality }).toBuffer();
   }
 
+  public async encodeWebP(canvas: Canvas): Promise<Buffer> {
+    return await this.convertToWebP(
+      canvas.toBuffer("image/png"),
+      this.config.webpQuality
+    );
+  }
+
+  public getCards(): CardData[] {
+    return this.cardData;
+  }
+
+  public getInputPaths(): {
+    csvPath: string;
+    templatesPath: string;
+    fontPaths: string[];
+    iconPaths: string[];
+    cardImagePaths: string[];
+  } {
+    return {
+      csvPath: this.config.csvPath,
+      templatesPath: this.config.templatesPath,
+      fontPaths: Object.values(this.config.fonts)
+        .flatMap(getFontVariants)
+        .map((variant) => variant.path),
+      iconPaths: [
+        ...Object.values(this.config.icons),
+        ...(this.config.cardArtStyle.mask
+          ? [this.config.cardArtStyle.mask]
+          : []),
+        // Layer images that are the same on every card
+        ...this.config.layers.flatMap((layer) =>
+          layer.type === "image" && !layer.src.includes("{{") ? [layer.src] : []
+        ),
+      ].filter((iconPath) => !isRemoteUrl(iconPath)),
+      // Images only some cards are drawn with (see getCardImagePaths), and
+      // the folders templated layer images are picked from
+      cardImagePaths: [
+        ...Object.values(this.config.rarityStyles).flatMap((style) => [
+          style.frameOverlay,
+          style.gem?.icon,
+        ]),
+        ...this.config.layers.map((layer) =>
+          layer.type === "image" ? getImageFolder(layer) : undefined
+        ),
+      ].filter((imagePath): imagePath is string => !!imagePath),
+    };
+  }
+
+  /** Images `card` is drawn with that depend on its row, e.g. its rarity gem. */
+  public getCardImagePaths(card: CardData): string[] {
+    const style = this.config.rarityStyles[card.Rarity];
+    const layerImages = this.config.layers.map((layer) =>
+      layer.type === "image" && layer.src.includes("{{")
+        ? renderTemplate(layer.src, toRow(card))
+        : undefined
+    );
+    return [style?.frameOverlay, style?.gem?.icon, ...layerImages].filter(
+      (imagePath): imagePath is string => !!imagePath && !isRemoteUrl(imagePath)
+    );
+  }
+
+  /**
+   * The layout and card art box `card` is drawn with: the base layout with
+   * every matching override from `layoutOverrides` merged over it.
+   */
+  public getEffectiveLayout(card: CardData): EffectiveLayout {
+    const { layout, cardArtX, cardArtY, cardArtWidth, cardArtHeight } =
+      this.config;
+    return resolveLayout(
+      layout,
+      { x: cardArtX, y: cardArtY, width: cardArtWidth, height: cardArtHeight },
+      matchOverrides(
+        card,
+        this.config.layoutOverrides,
+        this.config.rarityStyles[card.Rarity]?.textColors
+      )
+    );
+  }
+
   public async generateCard(
     cardData: CardData,
     debugMode: boolean = false
   ): Promise<Canvas> {
+    return (await this.renderCard(cardData, debugMode)).canvas;
+  }
+
+  public async renderCard(
+    cardData: CardData,
+    debugMode: boolean = false
+  ): Promise<RenderedCard> {
     const canvas = createCanvas(this.config.cardWidth, this.config.cardHeight);
     const ctx = canvas.getContext("2d");
 
     ctx.fillStyle = this.config.backgroundColor;
     ctx.fillRect(0, 0, this.config.cardWidth, this.config.cardHeight);
 
-    if (cardData.Element) {
-      await this.drawElementTemplate(ctx, cardData.Element);
+    const {
+      layout: cardLayout,
+      cardArt,
+      applied,
+    } = this.getEffectiveLayout(cardData);
+    if (applied.length) {
+      this.log("log", `📐 Layout overrides: ${applied.join(", ")}`);
+    }
+
+    const debugColors = this.getDebugColors();
+    const report: TextReport = { overflows: [], missingGlyphs: [] };
+    let art: ArtCandidate | undefined;
+
+    // The built-in parts of the card and the configured layers, bottom to top
+    const steps: Array<{ z: number; draw: () => Promise<void> }> = [
+      {
+        z: BUILTIN_Z.template,
+        draw: async () => {
+          if (cardData.Element) {
+            await this.drawElementTemplate(ctx, cardData);
+          }
+        },
+      },
+      {
+        z: BUILTIN_Z.art,
+        draw: async () => {
+          art = await this.drawCardArt(ctx, cardData, cardArt, debugMode);
+        },
+      },
+      {
+        z: BUILTIN_Z.rarityStyle,
+        draw: async () => {
+          const rarityStyle = this.config.rarityStyles[cardData.Rarity];
+          if (rarityStyle) {
+            await this.drawRarityStyle(ctx, rarityStyle, debugMode);
+          }
+        },
+      },
+      {
+        z: BUILTIN_Z.text,
+        draw: async () => {
+          for (const field of Object.keys(DEFAULT_FIELD_TEXT) as Array<
+            keyof CardLayout
+          >) {
+            const layout = cardLayout[field];
+            const content = this.getFieldContent(cardData, field, layout);
+            const runs =
+              typeof content === "string"
+                ? parseMarkup(content, layout)
+                : content;
+            // Only draw if there's something to display
+            if (!runs.length) continue;
+
+            await this.drawTextField(
+              ctx,
+              cardData,
+              field,
+              runs,
+              layout,
+              debugMode,
+              debugColors[field],
+              report
+            );
+
+            if (debugMode && field === "cost") {
+              this.log(
+                "log",
+                `⭐ Cost conversion: "${cardData.Cost}" -> "${describeRuns(
+                  runs
+                )}"`
+              );
+            }
+          }
+        },
+      },
+      ...this.config.layers.map((layer, index) => ({
+        z: layer.z ?? DEFAULT_LAYER_Z,
+        draw: () =>
+          this.drawLayer(ctx, cardData, layer, index, debugMode, report),
+      })),
+    ];
+
+    // Sorting is stable, so layers with the same z keep their config order
+    steps.sort((a, b) => a.z - b.z);
+    for (const step of steps) {
+      await step.draw();
     }
 
-    if (cardData.Address) {
-      const imageUrl = this.getImageUrlFromAddress(cardData.Address);
-      await this.drawCardArt(ctx, imageUrl, debugMode);
+    return {
+      canvas,
+      artSource: art?.source,
+      artLocation: art && this.describeArt(art),
+      ...report,
+    };
+  }
+
+  /**
+   * What a built-in field draws: its layout's `text` template, which defaults
+   * to the field's CSV column ("ATK {{Attack}}" for stats), or the icons of
+   * `statIcons`.
+   */
+  private getFieldContent(
+    card: CardData,
+    field: keyof CardLayout,
+    layout: TextLayout
+  ): string | TextRun[] {
+    const row = toRow(card);
+
+    if (field === "cost" && layout.text === undefined) {
+      return this.getCostContent(card.Cost || "");
     }
+    if (field === "attack" || field === "armor") {
+      const badge = this.config.statIcons[field];
+      if (badge) {
+        const column = field === "attack" ? "Attack" : "Armor";
+        return this.getStatContent(
+          renderTemplate(layout.text ?? `{{${column}}}`, row),
+          badge
+        );
+      }
+    }
+    return renderTemplate(layout.text ?? DEFAULT_FIELD_TEXT[field], row);
+  }
 
-    const textMappings: Array<
-      [keyof CardData, keyof CardLayout, (value: string) => string]
-    > = [
-      ["Name", "name", (value) => value],
-      ["Cost", "cost", (value) => this.convertCostToStars(value)],
-      ["Lore", "lore", (value) => value],
-      ["Attack", "attack", (value) => "ATK " + value],
-      ["Armor", "armor", (value) => "HP " + value],
-      ["Skills", "skills", (value) => value],
-    ];
+  /**
+   * Draws one text field or text layer and records text that doesn't fit or
+   * uses characters its fonts lack.
+   */
+  private async drawTextField(
+    ctx: CanvasRenderingContext2D,
+    card: CardData,
+    field: string,
+    runs: TextRun[],
+    layout: TextLayout,
+    debugMode: boolean,
+    debugColor: string,
+    report: TextReport
+  ): Promise<void> {
+    const fonts = getFontFamilies(layout.fontFamily);
+    const drawnText = runs
+      .map((run) => (run.kind === "text" ? run.text : ""))
+      .join("");
+    const characters = this.glyphCoverage.findMissing(drawnText, fonts);
+    if (characters.length) {
+      report.missingGlyphs.push({ card: card.Card, field, characters, fonts });
+      this.log(
+        "warn",
+        `⚠️  ${field}: ${characters
+          .map((char) => `"${char}"`)
+          .join(" ")} will render as tofu (not in ${fonts.join(", ")})`
+      );
+    }
 
-    const debugColors = this.getDebugColors();
+    const fitted = await this.drawText(
+      ctx,
+      runs,
+      layout,
+      debugMode,
+      debugColor,
+      field
+    );
 
-    for (const [dataKey, layoutKey, transformer] of textMappings) {
-      const value = cardData[dataKey];
-      const layout = this.config.layout[layoutKey];
-
-      if (value && layout) {
-        const displayValue = transformer(value.toString());
-        if (displayValue) {
-          // Only draw if there's something to display
-          this.drawText(
-            ctx,
-            displayValue,
-            layout,
-            debugMode,
-            debugColors[layoutKey],
-            layoutKey
-          );
+    if (fitted.problem) {
+      const overflow: TextOverflow = {
+        card: card.Card,
+        field,
+        fit: layout.fit || "overflow",
+        fontSize: fitted.fontSize,
+        lines: fitted.lines.length,
+        maxLines: fitted.maxLines,
+        message: fitted.problem,
+      };
+      if (layout.fit === "error") {
+        throw new TextOverflowError(overflow);
+      }
+      report.overflows.push(overflow);
+    }
+  }
+
+  private async drawLayer(
+    ctx: CanvasRenderingContext2D,
+    card: CardData,
+    layer: Layer,
+    index: number,
+    debugMode: boolean,
+    report: TextReport
+  ): Promise<void> {
+    const name = getLayerName(layer, index);
+    const row = toRow(card);
 
-          if (debugMode && layoutKey === "cost") {
-            console.log(`⭐ Cost conversion: "${value}" -> "${displayValue}"`);
+    ctx.save();
+    ctx.globalAlpha = layer.opacity ?? 1;
+    try {
+      switch (layer.type) {
+        case "text": {
+          const text = renderTemplate(layer.text, row);
+          if (text) {
+            await this.drawTextField(
+              ctx,
+              card,
+              name,
+              parseMarkup(text, layer),
+              layer,
+              debugMode,
+              LAYER_DEBUG_COLOR,
+              report
+            );
           }
+          break;
+        }
+        case "image": {
+          const src = renderTemplate(layer.src, row);
+          if (!src) break;
+          try {
+            const image = await this.loadCachedImage(src);
+            ctx.drawImage(image, layer.x, layer.y, layer.width, layer.height);
+          } catch (error) {
+            const errorMessage =
+              error instanceof Error ? error.message : "Unknown error";
+            throw new Error(
+              `Failed to load ${name} image ${src}: ${errorMessage}`
+            );
+          }
+          break;
+        }
+        case "shape":
+          drawShape(ctx, layer);
+          break;
+        case "qr": {
+          const data = renderTemplate(layer.data, row);
+          if (data) {
+            drawQrCode(ctx, layer, data);
+          }
+          break;
         }
       }
+    } finally {
+      ctx.restore();
     }
 
-    return canvas;
+    if (debugMode && layer.type !== "text") {
+      ctx.strokeStyle = LAYER_DEBUG_COLOR.replace("0.3", "0.8");
+      ctx.lineWidth = 2;
+      ctx.strokeRect(layer.x, layer.y, layer.width, layer.height);
+      ctx.fillStyle = LAYER_DEBUG_COLOR.replace("0.3", "0.9");
+      ctx.font = "14px Arial";
+      ctx.textAlign = "left";
+      ctx.textBaseline = "top";
+      ctx.fillText(`${name} (${layer.type})`, layer.x + 4, layer.y + 4);
+    }
   }
 
   public async generateSingleCard(
     cardIndex: number = 0,
     debugMode: boolean = false
-  ): Promise<void> {
+  ): Promise<boolean> {
     console.log("Creating output directory...");
     await fs.ensureDir(this.config.outputDir);
 
@@ -683,11 +2071,10 @@ export class CardGenerator {
           this.cardData.length - 1
         }`
       );
-      return;
+      return false;
     }
 
     const card = this.cardData[cardIndex];
-    const imageUrl = this.getImageUrlFromAddress(card.Address);
     const starDisplay = this.convertCostToStars(card.Cost);
     const timestamp = new Date().toLocaleTimeString();
 
@@ -696,37 +2083,48 @@ export class CardGenerator {
         debugMode ? "🎯 DEBUG MODE" : ""
       }`
     );
-    console.log(`   Image URL: ${imageUrl}`);
     console.log(`   Cost: "${card.Cost}" -> "${starDisplay}"`);
 
     try {
-      const canvas = await this.generateCard(card, debugMode);
-      const filename = "1.webp";
-      const outputPath = path.join(this.config.outputDir, filename);
-
-      try {
-        await fs.remove(outputPath);
-        console.log(`🗑️  Removed old file: ${filename}`);
-      } catch (error) {
-        // File might not exist, that's okay
-      }
-
-      console.log(`📸 Converting to WebP...`);
-      const pngBuffer = canvas.toBuffer("image/png");
-      const webpBuffer = await this.convertToWebP(
-        pngBuffer,
-        this.config.webpQuality
+      const { canvas, overflows, missingGlyphs } = await this.renderCard(
+        card,
+        debugMode
       );
+      const basename = this.getRenderBasename(card, debugMode);
+      for (const file of this.getTargetFiles(basename)) {
+        const outputPath = path.join(this.config.outputDir, file);
+        if (await fs.pathExists(outputPath)) {
+          await fs.remove(outputPath);
+          console.log(`🗑️  Removed old file: ${file}`);
+        }
+      }
 
-      await fs.writeFile(outputPath, webpBuffer);
-
-      const stats = await fs.stat(outputPath);
+      const targets = this.getOutputTargets();
       console.log(
-        `✅ Generated: ${filename} (${Math.round(
-          stats.size / 1024
-        )}KB) at ${timestamp} ${debugMode ? "🎯" : ""}`
+        `📸 Converting to ${targets
+          .map((target) => `${target.name} (${target.format})`)
+          .join(", ")}...`
       );
-      console.log(`📁 File path: ${path.resolve(outputPath)}`);
+      const written = await this.writeOutputs(canvas, basename);
+
+      for (const output of written) {
+        console.log(
+          `✅ Generated: ${path.relative(
+            this.config.outputDir,
+            output.path
+          )} (${output.width}x${output.height}, ${Math.round(
+            output.bytes / 1024
+          )}KB) at ${timestamp} ${debugMode ? "🎯" : ""}`
+        );
+        console.log(`📁 File path: ${path.resolve(output.path)}`);
+      }
+      if (overflows.length) {
+        console.warn(formatOverflowReport(overflows));
+      }
+      if (missingGlyphs.length) {
+        console.warn(formatGlyphReport(missingGlyphs));
+      }
+      return true;
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
@@ -734,192 +2132,624 @@ export class CardGenerator {
         `❌ Failed to generate card for ${card.Card}:`,
         errorMessage
       );
+      return false;
     }
   }
 
-  public async generateAllCards(): Promise<void> {
+  /**
+   * Forgets the cards in `manifest` that aren't in `cards` anymore and
+   * deletes their outputs. Returns the removed ids.
+   */
+  private async removeStaleOutputs(
+    manifest: BuildManifest,
+    cards: CardData[]
+  ): Promise<string[]> {
+    const removed = await manifest.removeStale(
+      new Set(cards.map((card) => card.Card)),
+      new Set(cards.flatMap((card) => this.getOutputFiles(card)))
+    );
+    for (const cardId of removed) {
+      console.log(`🗑️  Removed output of deleted card ${cardId}`);
+    }
+    return removed;
+  }
+
+  /**
+   * Deletes the outputs of cards removed from the CSV since the last full
+   * build, as that build would. Compares against the last loaded CSV.
+   */
+  public async removeDeletedCards(): Promise<string[]> {
+    const manifest = await BuildManifest.load(this.config.outputDir);
+    const removed = await this.removeStaleOutputs(manifest, this.cardData);
+    await manifest.save();
+    return removed;
+  }
+
+  /**
+   * Renders every card (or those matching `filter`) whose inputs changed since
+   * the last build, as recorded in the output directory's build manifest.
+   * The CSV is validated first and any error aborts the run. On unfiltered
+   * runs, outputs of cards that were removed from the CSV are deleted.
+   */
+  public async generateAllCards(
+    options: GenerateOptions = {}
+  ): Promise<GenerationSummary> {
+    const { filter, force = false, skipValidation = false } = options;
+
+    if (!skipValidation) {
+      await this.assertValidCsv();
+    }
+
     console.log("Loading fonts...");
     await this.loadFonts();
 
     console.log("Loading CSV data...");
-    const cardData = await this.loadCSV();
+    const allCards = await this.loadCSV();
+    const cardData = filter ? allCards.filter(filter) : allCards;
+    this.assertUniqueFilenames(allCards);
+
+    const manifest = await BuildManifest.load(this.config.outputDir);
+    const fileHashes = new Map<string, Promise<string>>();
+    const fingerprints = new Map<string, CardFingerprint | undefined>();
+    const staleCards: CardData[] = [];
+    const skipped: string[] = [];
+
+    for (const card of cardData) {
+      const fingerprint = await this.fingerprintCard(card, fileHashes);
+      fingerprints.set(card.Card, fingerprint);
+
+      const fresh =
+        !force &&
+        fingerprint !== undefined &&
+        (await manifest.isFresh(
+          card.Card,
+          this.getOutputFiles(card),
+          fingerprint
+        ));
+      if (fresh) {
+        skipped.push(card.Card);
+      } else {
+        staleCards.push(card);
+      }
+    }
+    if (skipped.length) {
+      console.log(
+        `⏭️  ${skipped.length} card(s) up to date, ${staleCards.length} to render`
+      );
+    }
+
+    const summary = await this.generateCards(staleCards);
+    summary.total = cardData.length;
+    summary.skipped = skipped;
+
+    const failedIds = new Set(summary.failed.map(({ card }) => card));
+    const missingArt = new Set(summary.missingArt);
+    const currentOutputs = new Set(
+      allCards.flatMap((card) => this.getOutputFiles(card))
+    );
+    for (const card of staleCards) {
+      const fingerprint = fingerprints.get(card.Card);
+      if (fingerprint && !failedIds.has(card.Card)) {
+        // Art first downloaded by this render is cached now; fingerprint it
+        // again so the next build doesn't take it for changed art
+        fingerprint.art = await this.fingerprintArt(card, fileHashes);
+        // Drawn without the art it has a source for (e.g. the download
+        // failed), so it is retried next build rather than kept as up to date
+        if (missingArt.has(card.Card) && fingerprint.art !== NO_ART) {
+          continue;
+        }
+        // e.g. after outputFilename changed
+        for (const file of await manifest.removeReplaced(
+          card.Card,
+          currentOutputs
+        )) {
+          console.log(`🗑️  Removed old file: ${file}`);
+        }
+        manifest.record(
+          card.Card,
+          this.getOutputFiles(card),
+          fingerprint,
+          summary.overflows.filter((overflow) => overflow.card === card.Card),
+          summary.art[card.Card]
+        );
+      }
+    }
+
+    // Skipped cards keep reporting the overflows of their last render
+    const skippedIds = new Set(skipped);
+    summary.overflows = cardData.flatMap((card) =>
+      skippedIds.has(card.Card)
+        ? manifest.getOverflows(card.Card)
+        : summary.overflows.filter((overflow) => overflow.card === card.Card)
+    );
+    if (!filter) {
+      summary.removed = await this.removeStaleOutputs(manifest, allCards);
+    }
+    await manifest.save();
+
+    if (this.config.cardManifest.enabled !== false) {
+      await this.writeCardManifest(allCards, manifest);
+    }
+
+    // Extras show the whole set, so filtered runs leave them alone. Cards
+    // that failed are left out rather than shown with their old image.
+    if (!filter) {
+      summary.extras = await this.generateExtras(
+        allCards.filter((card) => !failedIds.has(card.Card)),
+        summary.failed
+      );
+    }
+
+    console.log(
+      `Card generation complete! ${summary.generated.length} generated, ${summary.skipped.length} up to date, ${summary.failed.length} failed`
+    );
+    if (summary.missingArt.length) {
+      console.warn(
+        `⚠️  ${
+          summary.missingArt.length
+        } card(s) rendered without art: ${summary.missingArt.join(", ")}`
+      );
+    }
+    if (summary.overflows.length) {
+      console.warn(formatOverflowReport(summary.overflows));
+    }
+    if (summary.missingGlyphs.length) {
+      console.warn(formatGlyphReport(summary.missingGlyphs));
+    }
+    return summary;
+  }
 
+  /**
+   * Renders the given cards to the output directory. Fonts and CSV data are
+   * expected to be loaded already; per-card failures are collected in the
+   * summary instead of being thrown.
+   */
+  public async generateCards(
+    cardData: CardData[],
+    debugMode: boolean = false
+  ): Promise<GenerationSummary> {
     console.log("Creating output directory...");
     await fs.ensureDir(this.config.outputDir);
 
-    console.log(`Generating ${cardData.length} cards...`);
+    const concurrency = Math.max(1, this.config.concurrency);
+    console.log(
+      `Generating ${cardData.length} cards (${concurrency} at a time)...`
+    );
+
+    // Cards render concurrently, but their logs are flushed strictly in CSV
+    // order as soon as every earlier card has finished.
+    const outcomes: Array<CardOutcome | undefined> = new Array(cardData.length);
+    let nextToFlush = 0;
 
-    for (let i = 0; i < cardData.length; i++) {
-      const card = cardData[i];
-      const imageUrl = this.getImageUrlFromAddress(card.Address);
-      const starDisplay = this.convertCostToStars(card.Cost);
-      console.log(
-        `Generating card ${i + 1}/${cardData.length}: ${card.Card} (${
-          card.Element
-        }) - Cost: "${card.Cost}" -> "${starDisplay}"`
+    await mapWithConcurrency(cardData, concurrency, async (card, index) => {
+      const logs: Array<[LogLevel, unknown[]]> = [];
+      outcomes[index] = await this.logBuffer.run(logs, () =>
+        this.generateCardFile(card, index, cardData.length, debugMode, logs)
+      );
+
+      while (nextToFlush < outcomes.length && outcomes[nextToFlush]) {
+        for (const [level, args] of outcomes[nextToFlush]!.logs) {
+          console[level](...args);
+        }
+        nextToFlush++;
+      }
+    });
+
+    const summary: GenerationSummary = {
+      total: cardData.length,
+      generated: [],
+      failed: [],
+      missingArt: [],
+      art: {},
+      skipped: [],
+      removed: [],
+      extras: [],
+      overflows: [],
+      missingGlyphs: [],
+    };
+    for (const outcome of outcomes as CardOutcome[]) {
+      if (outcome.outputs) {
+        summary.generated.push(outcome.outputs[0].path);
+        summary.overflows.push(...(outcome.overflows || []));
+        summary.missingGlyphs.push(...(outcome.missingGlyphs || []));
+        if (outcome.artSource && outcome.artLocation) {
+          summary.art[outcome.card.Card] = {
+            source: outcome.artSource,
+            location: outcome.artLocation,
+          };
+        } else {
+          summary.missingArt.push(outcome.card.Card);
+        }
+      } else {
+        summary.failed.push({
+          card: outcome.card.Card,
+          error: outcome.error || "Unknown error",
+        });
+      }
+    }
+
+    return summary;
+  }
+
+  private async generateCardFile(
+    card: CardData,
+    index: number,
+    total: number,
+    debugMode: boolean,
+    logs: Array<[LogLevel, unknown[]]>
+  ): Promise<CardOutcome> {
+    const starDisplay = this.convertCostToStars(card.Cost);
+    this.log(
+      "log",
+      `Generating card ${index + 1}/${total}: ${card.Card} (${
+        card.Element
+      }) - Cost: "${card.Cost}" -> "${starDisplay}"`
+    );
+
+    try {
+      const { canvas, artSource, artLocation, overflows, missingGlyphs } =
+        await this.renderCard(card, debugMode);
+      const outputs = await this.writeOutputs(
+        canvas,
+        this.getRenderBasename(card, debugMode)
       );
-      console.log(`  Image URL: ${imageUrl}`);
 
+      this.log(
+        "log",
+        `✓ Generated: ${outputs
+          .map((output) => path.relative(this.config.outputDir, output.path))
+          .join(", ")}`
+      );
+      return {
+        card,
+        outputs,
+        artSource,
+        artLocation,
+        overflows,
+        missingGlyphs,
+        logs,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      this.log(
+        "error",
+        `✗ Failed to generate card for ${card.Card}:`,
+        errorMessage
+      );
+      return { card, error: errorMessage, logs };
+    }
+  }
+
+  /**
+   * Writes manifest.json (and manifest.csv if configured) for every card
+   * whose output files exist, so consumers don't have to parse the CSV or
+   * guess file names. Art of cards skipped this run comes from the build
+   * manifest.
+   */
+  private async writeCardManifest(
+    cards: CardData[],
+    buildManifest: BuildManifest
+  ): Promise<void> {
+    const { outputDir, cardWidth, cardHeight } = this.config;
+    const targets = this.getOutputTargets();
+    const entries: CardManifestEntry[] = [];
+
+    for (const card of cards) {
+      const outputs = [];
+      for (const [index, file] of this.getOutputFiles(card).entries()) {
+        if (await fs.pathExists(path.join(outputDir, file))) {
+          const { name, format } = targets[index];
+          outputs.push(await describeOutput(outputDir, file, name, format));
+        }
+      }
+      if (!outputs.length) continue;
+
+      let templateVariant: string | null = null;
+      if (card.Element) {
+        try {
+          templateVariant = (await this.resolveTemplate(card)).variant;
+        } catch (error) {
+          // No template for this element: the card was drawn without one
+        }
+      }
+      entries.push({
+        ...describeCard(card),
+        templateVariant,
+        art: buildManifest.getArt(card.Card) || null,
+        outputs,
+      });
+    }
+
+    const files = await writeCardManifest(
+      outputDir,
+      {
+        version: 1,
+        generatedAt: new Date().toISOString(),
+        cardWidth,
+        cardHeight,
+        cards: entries,
+      },
+      this.config.cardManifest.csv ?? false
+    );
+    console.log(
+      `🧾 Card manifest (${entries.length} cards): ${files
+        .map((file) => path.relative(outputDir, file))
+        .join(", ")}`
+    );
+  }
+
+  /**
+   * Renders the back of the cards, for one Element or for all of them. Its
+   * image and layers are filled in from a row that only has `Element` set.
+   */
+  public async renderCardBack(element?: string): Promise<Canvas> {
+    const back = this.config.cardBack || {};
+    const { cardWidth, cardHeight } = this.config;
+    const card: CardData = {
+      Card: element ? `back-${element}` : "back",
+      Name: "",
+      Element: element || "",
+      Cost: "",
+      Lore: "",
+      Attack: "",
+      Armor: "",
+      Rarity: "",
+      Skills: "",
+      Address: "",
+    };
+    const canvas = createCanvas(cardWidth, cardHeight);
+    const ctx = canvas.getContext("2d");
+
+    ctx.fillStyle = back.backgroundColor || this.config.backgroundColor;
+    ctx.fillRect(0, 0, cardWidth, cardHeight);
+
+    const src = back.image && renderTemplate(back.image, toRow(card));
+    if (src) {
       try {
-        const canvas = await this.generateCard(card);
-        const filename = `${this.sanitizeFilename(card.Card)}.webp`;
-        const outputPath = path.join(this.config.outputDir, filename);
-
-        const pngBuffer = canvas.toBuffer("image/png");
-        const webpBuffer = await this.convertToWebP(
-          pngBuffer,
-          this.config.webpQuality
-        );
-        await fs.writeFile(outputPath, webpBuffer);
+        const image = await this.loadCachedImage(src);
+        ctx.drawImage(image, 0, 0, cardWidth, cardHeight);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        throw new Error(`Failed to load card back ${src}: ${errorMessage}`);
+      }
+    }
+
+    const layers = (back.layers || [])
+      .map((layer, index) => ({ layer, index }))
+      .sort(
+        (a, b) =>
+          (a.layer.z ?? DEFAULT_LAYER_Z) - (b.layer.z ?? DEFAULT_LAYER_Z)
+      );
+    const report: TextReport = { overflows: [], missingGlyphs: [] };
+    for (const { layer, index } of layers) {
+      await this.drawLayer(ctx, card, layer, index, false, report);
+    }
+    return canvas;
+  }
+
+  /** The card backs to write: one, or one per Element with `perElement`. */
+  private getCardBacks(
+    cards: CardData[]
+  ): Array<{ element?: string; basename: string }> {
+    if (!this.config.cardBack?.perElement) {
+      return [{ basename: CARD_BACK_NAME }];
+    }
+    return [...new Set(cards.map((card) => card.Element).filter(Boolean))].map(
+      (element) => ({
+        element,
+        basename: `${CARD_BACK_NAME}-${slugify(element)}`,
+      })
+    );
+  }
 
-        console.log(`✓ Generated: ${filename}`);
+  /**
+   * Writes the configured contact sheet, atlas and card backs. The sheet and
+   * atlas are assembled from the first output file of each of `cards`, which
+   * should be up to date; cards without one are left out. Failures are added
+   * to `failed` under the extra's config key.
+   */
+  private async generateExtras(
+    cards: CardData[],
+    failed: GenerationSummary["failed"]
+  ): Promise<string[]> {
+    const { contactSheet, atlas, cardBack, outputDir, cardWidth, cardHeight } =
+      this.config;
+    const written: string[] = [];
+    const attempt = async (key: ExtraKey, write: () => Promise<string[]>) => {
+      try {
+        const files = await write();
+        written.push(...files);
+        console.log(
+          `🧩 Wrote ${files
+            .map((file) => path.relative(outputDir, file))
+            .join(", ")}`
+        );
       } catch (error) {
         const errorMessage =
           error instanceof Error ? error.message : "Unknown error";
-        console.error(
-          `✗ Failed to generate card for ${card.Card}:`,
-          errorMessage
+        console.error(`❌ Failed to write ${key}:`, errorMessage);
+        failed.push({ card: key, error: errorMessage });
+      }
+    };
+
+    if (contactSheet || atlas) {
+      const images: Array<SheetImage & { card: CardData }> = [];
+      for (const card of cards) {
+        const file = path.join(outputDir, this.getOutputFiles(card)[0]);
+        if (await fs.pathExists(file)) {
+          images.push({ card, key: card.Card, file });
+        }
+      }
+
+      if (contactSheet) {
+        await attempt("contactSheet", async () => {
+          const label = contactSheet.label || "{{Card}} {{Name}}";
+          const canvas = await drawContactSheet(
+            images.map((image) => ({
+              ...image,
+              key: renderTemplate(label, toRow(image.card)),
+            })),
+            contactSheet,
+            cardWidth,
+            cardHeight
+          );
+          const file = path.join(
+            outputDir,
+            contactSheet.file || "contact-sheet.png"
+          );
+          await fs.outputFile(file, canvas.toBuffer("image/png"));
+          return [file];
+        });
+      }
+      if (atlas) {
+        await attempt("atlas", () =>
+          writeAtlas(images, atlas, cardWidth, cardHeight, outputDir)
         );
       }
     }
 
-    console.log("Card generation complete!");
+    if (cardBack) {
+      await attempt("cardBack", async () => {
+        const files: string[] = [];
+        for (const { element, basename } of this.getCardBacks(cards)) {
+          const canvas = await this.renderCardBack(element);
+          const outputs = await this.writeOutputs(canvas, basename);
+          files.push(...outputs.map((output) => output.path));
+        }
+        return files;
+      });
+    }
+    return written;
   }
-}
 
-async function main(): Promise<void> {
-  const isSingleMode = process.argv.includes("--single");
-  const cardIndex = 0;
+  /**
+   * Text boxes that reach into the print safe zone, each with the cards drawn
+   * with it. Overrides can move boxes, so every card's layout is checked.
+   */
+  public checkSafeZone(cards: CardData[]): string[] {
+    const { cardWidth, cardHeight } = this.config;
+    const { safeZone } = resolvePrintSettings(this.config.print);
+    const problems = new Map<string, string[]>();
+
+    for (const card of cards) {
+      const { layout } = this.getEffectiveLayout(card);
+      for (const [field, box] of Object.entries(layout)) {
+        const problem = checkSafeZone(box, cardWidth, cardHeight, safeZone);
+        if (problem) {
+          const key = `${field}: ${problem}`;
+          problems.set(key, [...(problems.get(key) || []), card.Card]);
+        }
+      }
+    }
+    const fieldProblems = [...problems].map(([problem, cardIds]) =>
+      cardIds.length === cards.length
+        ? problem
+        : `${problem} (cards ${cardIds.join(", ")})`
+    );
+
+    // Layers are in the same place on every card
+    const layerProblems = this.config.layers.flatMap((layer, index) => {
+      const problem =
+        layer.type === "text" &&
+        checkSafeZone(layer, cardWidth, cardHeight, safeZone);
+      return problem ? [`${getLayerName(layer, index)}: ${problem}`] : [];
+    });
+    return [...fieldProblems, ...layerProblems];
+  }
 
-  if (isSingleMode) {
-    console.clear();
+  /**
+   * Renders every card (or those matching `filter`) for print: one file per
+   * card with bleed, crop marks and DPI metadata, converted to CMYK if an ICC
+   * profile is configured, plus a PDF with the cards imposed on sheets.
+   * Unless validation is skipped, CSV errors and text boxes in the safe zone
+   * abort the run before anything is rendered.
+   */
+  public async generatePrint(
+    options: GenerateOptions = {}
+  ): Promise<PrintSummary> {
+    const { filter, skipValidation = false } = options;
+    const settings = resolvePrintSettings(this.config.print);
+    const printDir = path.join(this.config.outputDir, settings.dir);
+
+    if (!skipValidation) {
+      await this.assertValidCsv();
+    }
+
+    console.log("Loading fonts...");
+    await this.loadFonts();
+
+    console.log("Loading CSV data...");
+    const allCards = await this.loadCSV();
+    const cardData = filter ? allCards.filter(filter) : allCards;
+    this.assertUniqueFilenames(allCards);
+
+    const problems = this.checkSafeZone(cardData);
+    if (problems.length && !skipValidation) {
+      throw new SafeZoneError(problems);
+    }
+    for (const problem of problems) {
+      console.warn(`⚠️  ${problem}`);
+    }
+
+    await fs.ensureDir(printDir);
+    const sheetsPath = path.join(printDir, "sheets.pdf");
+    const sheets = new SheetWriter(
+      sheetsPath,
+      this.config.cardWidth,
+      this.config.cardHeight,
+      settings
+    );
     console.log(
-      "🎨 Card Generator - Single Card Mode with Debug Bounding Boxes"
-    );
-    console.log("=".repeat(50));
-  }
-
-  const generator = new CardGenerator({
-    templatesPath: "./assets",
-    csvPath: "./data/cards.csv",
-    outputDir: "./generated_cards",
-    cardWidth: 1742,
-    cardHeight: 2539,
-    backgroundColor: "#ffffff",
-    webpQuality: 95,
-    cardArtX: 220,
-    cardArtY: 451,
-    cardArtWidth: 1300,
-    cardArtHeight: 1300,
-    fonts: {
-      CardNumbers: "./fonts/Stone Serif Semibold.ttf",
-    },
-    layout: {
-      name: {
-        x: 100,
-        y: 85,
-        width: 1350,
-        height: 155,
-        fontSize: 120,
-        fontFamily: "CardNumbers",
-        color: "white",
-        align: "left",
-        maxWidth: 1400,
-      },
-      cost: {
-        x: 110,
-        y: 270,
-        width: 1500,
-        height: 125,
-        fontSize: 70,
-        fontFamily: "CardNumbers",
-        color: "white",
-        align: "left",
-      },
-      lore: {
-        x: 130,
-        y: 1800,
-        width: 1483,
-        height: 250,
-        fontSize: 46,
-        fontFamily: "CardNumbers",
-        color: "#ffffff",
-        align: "top-left",
-        maxWidth: 1300,
-        lineHeight: 48,
-        // New properties for background and padding
-        padding: 20,
-        backgroundColor: "rgba(0, 0, 0, 0.2)",
-        backgroundBlur: 8, // Blur radius in pixels
-      },
-      skills: {
-        x: 130,
-        y: 2050,
-        width: 1483,
-        height: 150,
-        fontSize: 38,
-        fontFamily: "CardNumbers",
-        color: "white",
-        align: "left",
-        // New properties for background and padding
-        padding: 20,
-        backgroundColor: "rgba(0, 0, 0, 0.2)",
-        backgroundBlur: 8, // Blur radius in pixels
-      },
-      attack: {
-        x: 80,
-        y: 2250,
-        width: 740,
-        height: 205,
-        fontSize: 120,
-        fontFamily: "CardNumbers",
-        color: "rgba(255, 255, 255, 0.7)",
-        align: "center",
-      },
-      armor: {
-        x: 920,
-        y: 2250,
-        width: 740,
-        height: 210,
-        fontSize: 120,
-        fontFamily: "CardNumbers",
-        color: "rgba(255, 255, 255, 0.7)",
-        align: "center",
-      },
-    },
-  });
-
-  try {
-    if (isSingleMode) {
-      await generator.loadFonts();
-      await generator.generateSingleCard(cardIndex, true);
-      console.log("\n🎯 Debug Legend:");
-      console.log("   🔴 Name (Red)      🟢 Cost (Green) - Shows as ⭐ ⭐ ⭐");
-      console.log("   🔵 Lore (Blue)     🟡 Attack (Yellow)");
-      console.log("   🟣 Armor (Magenta)");
-      console.log("   🟠 Skills (Orange)");
-      console.log("   🟢 Card Art (Green border)");
-      console.log("\n⭐ Cost Display:");
-      console.log("   '3 ⭐️' becomes '⭐ ⭐ ⭐' (stars with spaces)");
-      console.log("   '5 ⭐️' becomes '⭐ ⭐ ⭐ ⭐ ⭐'");
-      console.log("   Uses regular text rendering with Unicode stars");
-      console.log("\n💡 Text Alignment Options:");
-      console.log("   top-left, top-center, top-right");
-      console.log("   left, center, right");
-      console.log("   bottom-left, bottom-center, bottom-right");
-      console.log("\n🖼️  View the card: open generated_cards/1.webp");
-    } else {
-      await generator.generateAllCards();
+      `🖨️  Printing ${cardData.length} cards at ${settings.dpi} DPI, ${
+        sheets.cardsPerPage
+      } per ${settings.sheet.size} sheet${
+        settings.iccProfile ? `, CMYK (${settings.iccProfile})` : ""
+      }`
+    );
+
+    const summary: PrintSummary = {
+      total: cardData.length,
+      generated: [],
+      sheets: sheetsPath,
+      pages: 0,
+      failed: [],
+    };
+    // Rendered one at a time: print files are large, and the PDF takes the
+    // cards in CSV order
+    for (const [index, card] of cardData.entries()) {
+      console.log(
+        `Printing card ${index + 1}/${cardData.length}: ${card.Card} (${
+          card.Element
+        })`
+      );
+      try {
+        const { canvas } = await this.renderCard(card);
+        const png = canvas.toBuffer("image/png");
+        const { data, extension } = await encodePrintFile(png, settings);
+        const outputPath = path.join(
+          printDir,
+          `${this.getOutputBasename(card)}.${extension}`
+        );
+        await fs.outputFile(outputPath, data);
+        await sheets.add(png);
+        summary.generated.push(outputPath);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        console.error(`✗ Failed to print card ${card.Card}:`, errorMessage);
+        summary.failed.push({ card: card.Card, error: errorMessage });
+      }
     }
-  } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    console.error("Error generating cards:", errorMessage);
-  }
-}
 
-if (require.main === module) {
-  main();
+    await sheets.finish();
+    summary.pages = sheets.pageCount;
+    console.log(
+      `Print export complete! ${summary.generated.length} card(s), ${summary.pages} sheet(s) in ${sheetsPath}, ${summary.failed.length} failed`
+    );
+    return summary;
+  }
 }
 
 export default CardGenerator;
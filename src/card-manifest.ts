@@ -0,0 +1,204 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import sharp from "sharp";
+import { hashData } from "./build-manifest";
+import type { CardData } from "./card-generator";
+import { toRow } from "./template";
+import { parseCost, parseInteger } from "./validation";
+
+export const CARD_MANIFEST_FILENAME = "manifest.json";
+export const CARD_MANIFEST_CSV_FILENAME = "manifest.csv";
+
+export interface CardManifestConfig {
+  // Write manifest.json after every build, on by default
+  enabled?: boolean;
+  // Also write manifest.csv, one row per card
+  csv?: boolean;
+}
+
+/** Where a card's art came from. */
+export interface CardArt {
+  // The art source type, e.g. "local" or "remote"
+  source: string;
+  // The file or URL
+  location: string;
+}
+
+export interface CardManifestOutput {
+  target: string;
+  format: string;
+  // Relative to the output directory, with forward slashes
+  path: string;
+  width: number;
+  height: number;
+  bytes: number;
+  // SHA-256 of the file
+  hash: string;
+}
+
+export interface CardManifestEntry {
+  card: string;
+  number: number | null;
+  name: string;
+  element: string;
+  rarity: string;
+  cost: number | null;
+  attack: number | null;
+  armor: number | null;
+  lore: string;
+  skills: string;
+  address: string;
+  // The other CSV columns (e.g. Beetle), as they are in the CSV
+  extra: Record<string, string>;
+  templateVariant: string | null;
+  art: CardArt | null;
+  outputs: CardManifestOutput[];
+}
+
+export interface CardManifest {
+  version: 1;
+  generatedAt: string;
+  cardWidth: number;
+  cardHeight: number;
+  cards: CardManifestEntry[];
+}
+
+// The CSV columns that have a typed field of their own
+const DESCRIBED_COLUMNS: Array<keyof CardData> = [
+  "Card",
+  "Name",
+  "Element",
+  "Rarity",
+  "Cost",
+  "Attack",
+  "Armor",
+  "Lore",
+  "Skills",
+  "Address",
+];
+
+/**
+ * A card's CSV row with numbers parsed; a value that doesn't parse is null,
+ * like in the validation report.
+ */
+export function describeCard(
+  card: CardData
+): Omit<CardManifestEntry, "templateVariant" | "art" | "outputs"> {
+  const row = toRow(card);
+  const text = (value: string | undefined) => (value || "").trim();
+  return {
+    card: text(card.Card),
+    number: parseInteger(card.Card),
+    name: text(card.Name),
+    element: text(card.Element),
+    rarity: text(card.Rarity),
+    cost: parseCost(card.Cost || ""),
+    attack: parseInteger(card.Attack),
+    armor: parseInteger(card.Armor),
+    lore: text(card.Lore),
+    skills: text(card.Skills),
+    address: text(card.Address),
+    extra: Object.fromEntries(
+      Object.keys(row)
+        .filter(
+          (column) => !DESCRIBED_COLUMNS.includes(column as keyof CardData)
+        )
+        .map((column) => [column, text(row[column])])
+    ),
+  };
+}
+
+/** Reads the size, dimensions and hash of a written output file. */
+export async function describeOutput(
+  outputDir: string,
+  file: string,
+  target: string,
+  format: string
+): Promise<CardManifestOutput> {
+  const data = await fs.readFile(path.join(outputDir, file));
+  const { width = 0, height = 0 } = await sharp(data).metadata();
+  return {
+    target,
+    format,
+    path: file.split(path.sep).join("/"),
+    width,
+    height,
+    bytes: data.length,
+    hash: hashData(data),
+  };
+}
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The manifest as CSV: the card's fields, then path, size and hash columns
+ * per output target (e.g. `web_path`, `web_width`).
+ */
+export function formatManifestCsv(manifest: CardManifest): string {
+  const targets = [
+    ...new Set(
+      manifest.cards.flatMap((card) =>
+        card.outputs.map((output) => output.target)
+      )
+    ),
+  ];
+  const outputColumns = ["path", "width", "height", "bytes", "hash"] as const;
+  const header = [
+    "card",
+    "number",
+    "name",
+    "element",
+    "rarity",
+    "cost",
+    "attack",
+    "armor",
+    "templateVariant",
+    "artSource",
+    "artLocation",
+    ...targets.flatMap((target) =>
+      outputColumns.map((column) => `${target}_${column}`)
+    ),
+  ];
+
+  const rows = manifest.cards.map((card) => [
+    card.card,
+    card.number,
+    card.name,
+    card.element,
+    card.rarity,
+    card.cost,
+    card.attack,
+    card.armor,
+    card.templateVariant,
+    card.art?.source,
+    card.art?.location,
+    ...targets.flatMap((target) => {
+      const output = card.outputs.find((output) => output.target === target);
+      return outputColumns.map((column) => output?.[column]);
+    }),
+  ]);
+
+  return [header, ...rows]
+    .map((row) => row.map(csvField).join(","))
+    .join("\n")
+    .concat("\n");
+}
+
+/** Writes manifest.json, and manifest.csv if asked to. Returns the paths. */
+export async function writeCardManifest(
+  outputDir: string,
+  manifest: CardManifest,
+  csv: boolean
+): Promise<string[]> {
+  const jsonPath = path.join(outputDir, CARD_MANIFEST_FILENAME);
+  await fs.outputJson(jsonPath, manifest, { spaces: 2 });
+  if (!csv) {
+    return [jsonPath];
+  }
+  const csvPath = path.join(outputDir, CARD_MANIFEST_CSV_FILENAME);
+  await fs.outputFile(csvPath, formatManifestCsv(manifest));
+  return [jsonPath, csvPath];
+}
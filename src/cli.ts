@@ -0,0 +1,506 @@
+import { parseArgs } from "util";
+import * as fs from "fs-extra";
+import { ArtCache } from "./art-cache";
+import CardGenerator, { CardData, GeneratorConfig } from "./card-generator";
+import { listConfigNames, loadGeneratorConfig, readConfigFile } from "./config";
+import { OUTPUT_FORMATS, OutputFormat } from "./outputs";
+import { DEFAULT_PREVIEW_HOST, PreviewServer } from "./preview-server";
+import { formatValidationReport, toJsonReport } from "./validation";
+import { CardWatcher } from "./watch";
+
+const USAGE = `Usage: card-generator <command> [options]
+
+Commands:
+  generate                 Render all cards (or a filtered subset)
+  single --card <id>       Render one card by number or name
+  validate                 Check the config and CSV data without rendering
+  layout --card <id>       Show the layout one card is drawn with
+  print                    Export print files with bleed and PDF sheets
+  list                     List cards and available configs
+  watch                    Re-render affected cards when inputs change
+  serve                    Start the live preview gallery
+  cache-prune              Drop cached art no current card uses
+
+Options:
+  --config <path>          Config file (default: ./cards.config.json)
+  --profile <name>         Named config inside the config file
+  --csv <path>             Override the CSV path
+  --out <dir>              Override the output directory
+  --quality <1-100>        Override the output quality
+  --format <format>        Output format: ${OUTPUT_FORMATS.join(", ")}
+  --target <name>          Only write these output targets (repeatable)
+  --card <id>              Card number or name (repeatable for generate)
+  --element <element>      Only generate cards of this element
+  --debug                  Draw debug bounding boxes
+  --offline                Only use cached card art, never download
+  --concurrency <n>        How many cards to render at the same time
+  --force                  Re-render cards even if their inputs are unchanged
+  --skip-validation        Render without validating the CSV first
+  --json                   Print validate/layout output as JSON
+  --overflow-report <file> Write text that didn't fit its box to a JSON file
+  --port <port>            Port for serve (default: 4173)
+  --host <host>            Interface serve listens on (default: 127.0.0.1)
+  -h, --help               Show this help`;
+
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+type CliOptions = {
+  config: string;
+  profile?: string;
+  csv?: string;
+  out?: string;
+  quality?: string;
+  format?: string;
+  target?: string[];
+  card?: string[];
+  element?: string;
+  debug?: boolean;
+  offline?: boolean;
+  concurrency?: string;
+  force?: boolean;
+  "skip-validation"?: boolean;
+  json?: boolean;
+  "overflow-report"?: string;
+  port?: string;
+  host?: string;
+  help?: boolean;
+};
+
+function isParseArgsError(error: unknown): error is Error {
+  return (
+    error instanceof Error &&
+    String((error as NodeJS.ErrnoException).code).startsWith("ERR_PARSE_ARGS")
+  );
+}
+
+function parseCli(argv: string[]): { command?: string; options: CliOptions } {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: "string", default: "./cards.config.json" },
+      profile: { type: "string" },
+      csv: { type: "string" },
+      out: { type: "string" },
+      quality: { type: "string" },
+      format: { type: "string" },
+      target: { type: "string", multiple: true },
+      card: { type: "string", multiple: true },
+      element: { type: "string" },
+      debug: { type: "boolean" },
+      offline: { type: "boolean" },
+      concurrency: { type: "string" },
+      force: { type: "boolean" },
+      "skip-validation": { type: "boolean" },
+      json: { type: "boolean" },
+      "overflow-report": { type: "string" },
+      port: { type: "string", default: "4173" },
+      host: { type: "string", default: DEFAULT_PREVIEW_HOST },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (positionals.length > 1) {
+    throw new UsageError(
+      `Unexpected arguments: ${positionals.slice(1).join(" ")}`
+    );
+  }
+
+  return { command: positionals[0], options: values as CliOptions };
+}
+
+async function resolveConfig(options: CliOptions): Promise<GeneratorConfig> {
+  const config = await loadGeneratorConfig(options.config, options.profile);
+
+  if (options.csv) {
+    config.csvPath = options.csv;
+  }
+  if (options.out) {
+    config.outputDir = options.out;
+  }
+  if (
+    config.outputs?.length &&
+    (options.quality !== undefined || options.format !== undefined)
+  ) {
+    throw new UsageError(
+      "--quality and --format only apply without `outputs` in the config; pick output targets with --target"
+    );
+  }
+  if (options.target) {
+    const names = (config.outputs || []).map((target) => target.name);
+    const unknown = options.target.filter((name) => !names.includes(name));
+    if (unknown.length) {
+      throw new UsageError(
+        `Unknown output target(s) ${unknown.join(", ")} (configured: ${
+          names.join(", ") || "none"
+        })`
+      );
+    }
+    config.outputs = config.outputs!.filter((target) =>
+      options.target!.includes(target.name)
+    );
+  }
+  if (options.quality !== undefined) {
+    const quality = Number(options.quality);
+    if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+      throw new UsageError(
+        `--quality must be an integer from 1 to 100, got "${options.quality}"`
+      );
+    }
+    config.webpQuality = quality;
+  }
+  if (options.format !== undefined) {
+    if (!OUTPUT_FORMATS.includes(options.format as OutputFormat)) {
+      throw new UsageError(
+        `--format must be one of ${OUTPUT_FORMATS.join(", ")}, got "${
+          options.format
+        }"`
+      );
+    }
+    config.outputFormat = options.format as OutputFormat;
+  }
+  if (options.concurrency !== undefined) {
+    const concurrency = Number(options.concurrency);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new UsageError(
+        `--concurrency must be a positive integer, got "${options.concurrency}"`
+      );
+    }
+    config.concurrency = concurrency;
+  }
+  if (options.offline) {
+    if (config.artCache?.enabled === false) {
+      throw new UsageError(
+        "--offline reads from the art cache, which the config turns off (artCache.enabled: false)"
+      );
+    }
+    config.artCache = { ...config.artCache, offline: true };
+  }
+
+  return config;
+}
+
+function matchesCard(card: CardData, query: string): boolean {
+  return card.Card === query || card.Name.toLowerCase() === query.toLowerCase();
+}
+
+function findCardIndex(cards: CardData[], query: string): number {
+  const index = cards.findIndex((card) => matchesCard(card, query));
+  if (index === -1) {
+    throw new UsageError(
+      `No card with number or name "${query}" (${cards.length} cards loaded)`
+    );
+  }
+  return index;
+}
+
+function printDebugLegend(): void {
+  console.log("\n🎯 Debug Legend:");
+  console.log("   🔴 Name (Red)      🟢 Cost (Green)");
+  console.log("   🔵 Lore (Blue)     🟡 Attack (Yellow)");
+  console.log("   🟣 Armor (Magenta)");
+  console.log("   🟠 Skills (Orange)   🩵 Rarity (Cyan)");
+  console.log("   🟢 Card Art (Green border)");
+  console.log("\n⭐ Cost Display:");
+  console.log("   With statIcons.cost, '3 ⭐️' is drawn as 3 of its icons");
+  console.log(
+    "   Above maxIcons it becomes a count, e.g. '7×★' with maxIcons 5"
+  );
+  console.log("   Without it, Unicode stars: '3 ⭐️' becomes '⭐ ⭐ ⭐'");
+  console.log(
+    "   statIcons.attack / armor draw a badge icon before the number"
+  );
+  console.log("\n💡 Text Alignment Options:");
+  console.log("   top-left, top-center, top-right");
+  console.log("   left, center, right");
+  console.log("   bottom-left, bottom-center, bottom-right");
+}
+
+/** The --card and --element filters, undefined when neither is given. */
+function getCardFilter(
+  options: CliOptions
+): ((card: CardData) => boolean) | undefined {
+  const cardQueries = options.card || [];
+  const element = options.element?.toLowerCase();
+
+  if (cardQueries.length === 0 && element === undefined) {
+    return undefined;
+  }
+  return (card) =>
+    (cardQueries.length === 0 ||
+      cardQueries.some((query) => matchesCard(card, query))) &&
+    (!element || card.Element.toLowerCase() === element);
+}
+
+function printFailures(failed: Array<{ card: string; error: string }>): void {
+  console.error(`\n❌ ${failed.length} card(s) failed:`);
+  for (const { card, error } of failed) {
+    console.error(`   ${card}: ${error}`);
+  }
+}
+
+async function runGenerate(options: CliOptions): Promise<number> {
+  const generator = new CardGenerator(await resolveConfig(options));
+
+  const summary = await generator.generateAllCards({
+    filter: getCardFilter(options),
+    force: options.force,
+    skipValidation: options["skip-validation"],
+  });
+
+  if (summary.total === 0) {
+    console.error("❌ No cards matched the given filters");
+    return EXIT_FAILURE;
+  }
+  if (options["overflow-report"]) {
+    await fs.outputJson(options["overflow-report"], summary.overflows, {
+      spaces: 2,
+    });
+    console.log(
+      `📐 Overflow report (${summary.overflows.length} field(s)) written to ${options["overflow-report"]}`
+    );
+  }
+  if (summary.failed.length) {
+    printFailures(summary.failed);
+    return EXIT_FAILURE;
+  }
+  return EXIT_OK;
+}
+
+async function runPrint(options: CliOptions): Promise<number> {
+  const generator = new CardGenerator(await resolveConfig(options));
+  const summary = await generator.generatePrint({
+    filter: getCardFilter(options),
+    skipValidation: options["skip-validation"],
+  });
+
+  if (summary.total === 0) {
+    console.error("❌ No cards matched the given filters");
+    return EXIT_FAILURE;
+  }
+  if (summary.failed.length) {
+    printFailures(summary.failed);
+    return EXIT_FAILURE;
+  }
+  return EXIT_OK;
+}
+
+async function runSingle(options: CliOptions): Promise<number> {
+  const [query, ...extra] = options.card || [];
+  if (!query || extra.length) {
+    throw new UsageError("single requires exactly one --card <number|name>");
+  }
+
+  console.clear();
+  console.log("🎨 Card Generator - Single Card Mode");
+  console.log("=".repeat(50));
+
+  const generator = new CardGenerator(await resolveConfig(options));
+  await generator.loadFonts();
+  const cards = await generator.loadCSV();
+  const ok = await generator.generateSingleCard(
+    findCardIndex(cards, query),
+    options.debug
+  );
+
+  if (ok && options.debug) {
+    printDebugLegend();
+  }
+  return ok ? EXIT_OK : EXIT_FAILURE;
+}
+
+async function runValidate(options: CliOptions): Promise<number> {
+  const config = await resolveConfig(options);
+  const generator = new CardGenerator(config);
+  const report = await generator.validateCSV();
+  // Only configs that are printed have a safe zone to respect
+  const safeZone = config.print
+    ? generator.checkSafeZone(await generator.loadCSV())
+    : [];
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        config.print
+          ? { ...toJsonReport(report), safeZone }
+          : toJsonReport(report),
+        null,
+        2
+      )
+    );
+  } else {
+    console.log(`✅ Config OK: ${options.config}`);
+    console.log(formatValidationReport(report));
+    for (const problem of safeZone) {
+      console.log(`❌ Print safe zone: ${problem}`);
+    }
+  }
+  return report.errorCount || safeZone.length ? EXIT_FAILURE : EXIT_OK;
+}
+
+async function runLayout(options: CliOptions): Promise<number> {
+  const [query, ...extra] = options.card || [];
+  if (!query || extra.length) {
+    throw new UsageError("layout requires exactly one --card <number|name>");
+  }
+
+  const generator = new CardGenerator(await resolveConfig(options));
+  const cards = await generator.loadCSV();
+  const card = cards[findCardIndex(cards, query)];
+  const effective = generator.getEffectiveLayout(card);
+
+  if (options.json) {
+    console.log(JSON.stringify(effective, null, 2));
+    return EXIT_OK;
+  }
+
+  console.log(
+    `📐 Layout for card ${card.Card} "${card.Name}" (${card.Element}, ${card.Rarity})`
+  );
+  console.log(
+    effective.applied.length
+      ? `   Overrides applied: ${effective.applied.join(" -> ")}`
+      : "   No overrides apply, using the base layout"
+  );
+  const { x, y, width, height } = effective.cardArt;
+  console.log(`\n   cardArt: x=${x}, y=${y}, ${width}x${height}`);
+  for (const [key, layout] of Object.entries(effective.layout)) {
+    console.log(`\n   ${key}: ${JSON.stringify(layout)}`);
+  }
+  return EXIT_OK;
+}
+
+async function runList(options: CliOptions): Promise<number> {
+  const file = await readConfigFile(options.config);
+  const names = listConfigNames(file);
+  console.log(`⚙️  Configs in ${options.config}:`);
+  for (const name of names) {
+    console.log(`   ${name}${name === (file.default || names[0]) ? " *" : ""}`);
+  }
+
+  const generator = new CardGenerator(await resolveConfig(options));
+  const cards = await generator.loadCSV();
+  console.log(`\n🎴 Cards (${cards.length}):`);
+  for (const card of cards) {
+    console.log(
+      `   ${card.Card.padStart(3)}  ${card.Name.padEnd(24)} ${card.Element}`
+    );
+  }
+  return EXIT_OK;
+}
+
+async function runCachePrune(options: CliOptions): Promise<number> {
+  const config = await resolveConfig(options);
+  const generator = new CardGenerator(config);
+  const cards = await generator.loadCSV();
+
+  const keepUrls = new Set<string>();
+  for (const card of cards) {
+    for (const candidate of await generator.getArtCandidates(card)) {
+      if (candidate.location) keepUrls.add(candidate.location);
+    }
+  }
+
+  const cache = new ArtCache(config.artCache);
+  const { removedEntries, removedFiles, freedBytes } = await cache.prune(
+    keepUrls
+  );
+  console.log(
+    `🧹 Pruned ${removedEntries} cache entries and ${removedFiles} files (${Math.round(
+      freedBytes / 1024
+    )}KB freed)`
+  );
+  return EXIT_OK;
+}
+
+async function runWatch(options: CliOptions): Promise<number> {
+  const watcher = new CardWatcher({
+    configPath: options.config,
+    loadConfig: () => resolveConfig(options),
+    debugMode: options.debug,
+  });
+  await watcher.start();
+
+  await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+  console.log("\n👋 Stopping watcher");
+  await watcher.close();
+  return EXIT_OK;
+}
+
+async function runServe(options: CliOptions): Promise<number> {
+  const port = Number(options.port);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new UsageError(`--port must be a valid port, got "${options.port}"`);
+  }
+
+  const server = new PreviewServer({
+    port,
+    host: options.host,
+    configPath: options.config,
+    loadConfig: () => resolveConfig(options),
+  });
+  await server.start();
+
+  await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+  console.log("\n👋 Stopping preview server");
+  await server.close();
+  return EXIT_OK;
+}
+
+export async function run(argv: string[]): Promise<number> {
+  try {
+    const { command, options } = parseCli(argv);
+
+    if (options.help || !command) {
+      console.log(USAGE);
+      return command || options.help ? EXIT_OK : EXIT_USAGE;
+    }
+
+    switch (command) {
+      case "generate":
+        return await runGenerate(options);
+      case "single":
+        return await runSingle(options);
+      case "validate":
+        return await runValidate(options);
+      case "layout":
+        return await runLayout(options);
+      case "print":
+        return await runPrint(options);
+      case "list":
+        return await runList(options);
+      case "watch":
+        return await runWatch(options);
+      case "serve":
+        return await runServe(options);
+      case "cache-prune":
+        return await runCachePrune(options);
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError || isParseArgsError(error)) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("Error generating cards:", errorMessage);
+    return EXIT_FAILURE;
+  }
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).then((exitCode) => {
+    process.exitCode = exitCode;
+  });
+}
@@ -0,0 +1,1163 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import YAML from "yaml";
+import {
+  type Box,
+  type CardLayout,
+  type CostIcons,
+  type GeneratorConfig,
+  type RarityBorder,
+  type RarityStyle,
+  type StatBadge,
+  type StatIcons,
+  type TextAlignment,
+  type TextLayout,
+} from "./card-generator";
+import type { ArtCacheConfig } from "./art-cache";
+import {
+  ART_FIT_MODES,
+  type ArtShadow,
+  type ArtStyle,
+  type ArtVignette,
+  type FocalPoint,
+} from "./art-fit";
+import type { CardManifestConfig } from "./card-manifest";
+import type { AtlasConfig, CardBackConfig, ContactSheetConfig } from "./extras";
+import { checkFilenamePattern } from "./filenames";
+import { deepMerge, type LayoutOverride, type LayoutOverrides } from "./layout";
+import { ART_SOURCE_TYPES, isRemoteUrl } from "./art-resolver";
+import {
+  LAYER_TYPES,
+  QR_ERROR_CORRECTION,
+  SHAPES,
+  type ImageLayer,
+  type Layer,
+  type QrLayer,
+  type ShapeLayer,
+  type TextLayer,
+} from "./layers";
+import {
+  FONT_STYLES,
+  GENERIC_FONT_FAMILIES,
+  getFontFamilies,
+  type FontVariant,
+} from "./fonts";
+import {
+  ATLAS_FORMATS,
+  CARD_BACK_NAME,
+  getOutputExtension,
+  getTargetDir,
+  OUTPUT_FORMATS,
+  type OutputTarget,
+} from "./outputs";
+import {
+  BLEED_MODES,
+  BUILTIN_CMYK_PROFILE,
+  SHEET_SIZES,
+  type PrintConfig,
+  type SheetConfig,
+} from "./print";
+import { TEXT_FIT_MODES } from "./text-fit";
+import type { ValidationConfig } from "./validation";
+import {
+  TEMPLATE_VARIANT_RULES,
+  type TemplateVariantConfig,
+} from "./templates";
+
+/**
+ * A config file holds one or more named generator configs, e.g. "print" and
+ * "web". A named config may `extends` another one and only list what differs.
+ * A file without a `configs` key is treated as a single config named
+ * "default".
+ */
+export interface ConfigFile {
+  default?: string;
+  configs: Record<string, NamedConfig>;
+}
+
+export type NamedConfig = GeneratorConfig & { extends?: string };
+
+export class ConfigError extends Error {
+  constructor(
+    public readonly configPath: string,
+    public readonly issues: string[]
+  ) {
+    super(
+      `Invalid config ${configPath}:\n${issues
+        .map((issue) => `  - ${issue}`)
+        .join("\n")}`
+    );
+    this.name = "ConfigError";
+  }
+}
+
+type Schema =
+  | { kind: "number"; min?: number; max?: number }
+  | { kind: "string"; oneOf?: readonly string[] }
+  | { kind: "boolean" }
+  | { kind: "object"; fields: Record<string, Schema>; required?: string[] }
+  | { kind: "map"; values: Schema }
+  | { kind: "list"; items: Schema }
+  | { kind: "either"; options: Schema[] }
+  // An object whose `tag` key picks the schema for the rest of it
+  | { kind: "tagged"; tag: string; variants: Record<string, Schema> };
+
+const TEXT_ALIGNMENTS = Object.keys({
+  "top-left": true,
+  "top-center": true,
+  "top-right": true,
+  left: true,
+  center: true,
+  right: true,
+  "bottom-left": true,
+  "bottom-center": true,
+  "bottom-right": true,
+} satisfies Record<TextAlignment, true>);
+
+const LAYOUT_KEYS = Object.keys({
+  name: true,
+  cost: true,
+  lore: true,
+  attack: true,
+  armor: true,
+  skills: true,
+  rarity: true,
+} satisfies Record<keyof CardLayout, true>) as Array<keyof CardLayout>;
+
+const textLayoutFields = {
+  x: { kind: "number" },
+  y: { kind: "number" },
+  width: { kind: "number", min: 0 },
+  height: { kind: "number", min: 0 },
+  fontSize: { kind: "number", min: 1 },
+  fontFamily: {
+    kind: "either",
+    options: [{ kind: "string" }, { kind: "list", items: { kind: "string" } }],
+  },
+  color: { kind: "string" },
+  align: { kind: "string", oneOf: TEXT_ALIGNMENTS },
+  maxWidth: { kind: "number", min: 0 },
+  lineHeight: { kind: "number", min: 0 },
+  padding: { kind: "number", min: 0 },
+  backgroundColor: { kind: "string" },
+  backgroundBlur: { kind: "number", min: 0 },
+  fit: { kind: "string", oneOf: TEXT_FIT_MODES },
+  minFontSize: { kind: "number", min: 1 },
+  markup: { kind: "boolean" },
+  boldSkillName: { kind: "boolean" },
+  text: { kind: "string" },
+} satisfies Record<keyof TextLayout, Schema>;
+
+const textLayoutSchema: Schema = {
+  kind: "object",
+  fields: textLayoutFields,
+  required: [
+    "x",
+    "y",
+    "width",
+    "height",
+    "fontSize",
+    "fontFamily",
+    "color",
+    "align",
+  ],
+};
+
+// Overrides only list the keys that differ from the base layout
+const layoutOverrideSchema: Schema = {
+  kind: "object",
+  fields: {
+    layout: {
+      kind: "object",
+      fields: Object.fromEntries(
+        LAYOUT_KEYS.map((key) => [
+          key,
+          { kind: "object", fields: textLayoutFields },
+        ])
+      ),
+    },
+    cardArtX: { kind: "number" },
+    cardArtY: { kind: "number" },
+    cardArtWidth: { kind: "number", min: 0 },
+    cardArtHeight: { kind: "number", min: 0 },
+  } satisfies Record<keyof LayoutOverride, Schema>,
+};
+
+const rarityStyleSchema: Schema = {
+  kind: "object",
+  fields: {
+    frameOverlay: { kind: "string" },
+    border: {
+      kind: "object",
+      fields: {
+        width: { kind: "number", min: 0 },
+        colors: { kind: "list", items: { kind: "string" } },
+        angle: { kind: "number" },
+      } satisfies Record<keyof RarityBorder, Schema>,
+      required: ["width", "colors"],
+    },
+    textColors: {
+      kind: "object",
+      fields: Object.fromEntries(
+        LAYOUT_KEYS.map((key) => [key, { kind: "string" }])
+      ),
+    },
+    gem: {
+      kind: "object",
+      fields: {
+        icon: { kind: "string" },
+        x: { kind: "number" },
+        y: { kind: "number" },
+        width: { kind: "number", min: 0 },
+        height: { kind: "number", min: 0 },
+      } satisfies Record<keyof (Box & { icon: string }), Schema>,
+      required: ["icon", "x", "y", "width", "height"],
+    },
+  } satisfies Record<keyof RarityStyle, Schema>,
+};
+
+const boxFields = {
+  x: { kind: "number" },
+  y: { kind: "number" },
+  width: { kind: "number", min: 0 },
+  height: { kind: "number", min: 0 },
+} satisfies Record<keyof Box, Schema>;
+
+const layerFields = {
+  name: { kind: "string" },
+  z: { kind: "number" },
+  opacity: { kind: "number", min: 0, max: 1 },
+} satisfies Record<Exclude<keyof Layer, keyof Box | "type">, Schema>;
+
+const layerSchema: Schema = {
+  kind: "tagged",
+  tag: "type",
+  variants: {
+    text: {
+      kind: "object",
+      fields: {
+        ...textLayoutFields,
+        ...layerFields,
+        type: { kind: "string" },
+        text: { kind: "string" },
+      } satisfies Record<keyof TextLayer, Schema>,
+      required: [
+        "text",
+        "x",
+        "y",
+        "width",
+        "height",
+        "fontSize",
+        "fontFamily",
+        "color",
+        "align",
+      ],
+    },
+    image: {
+      kind: "object",
+      fields: {
+        ...boxFields,
+        ...layerFields,
+        type: { kind: "string" },
+        src: { kind: "string" },
+      } satisfies Record<keyof ImageLayer, Schema>,
+      required: ["src", "x", "y", "width", "height"],
+    },
+    shape: {
+      kind: "object",
+      fields: {
+        ...boxFields,
+        ...layerFields,
+        type: { kind: "string" },
+        shape: { kind: "string", oneOf: SHAPES },
+        fill: { kind: "string" },
+        stroke: { kind: "string" },
+        strokeWidth: { kind: "number", min: 0 },
+        radius: { kind: "number", min: 0 },
+      } satisfies Record<keyof ShapeLayer, Schema>,
+      required: ["shape", "x", "y", "width", "height"],
+    },
+    qr: {
+      kind: "object",
+      fields: {
+        ...boxFields,
+        ...layerFields,
+        type: { kind: "string" },
+        data: { kind: "string" },
+        color: { kind: "string" },
+        background: { kind: "string" },
+        errorCorrection: { kind: "string", oneOf: QR_ERROR_CORRECTION },
+      } satisfies Record<keyof QrLayer, Schema>,
+      required: ["data", "x", "y", "width", "height"],
+    },
+  } satisfies Record<(typeof LAYER_TYPES)[number], Schema>,
+};
+
+const statBadgeSchema: Schema = {
+  kind: "object",
+  fields: {
+    icon: { kind: "string" },
+    scale: { kind: "number", min: 0 },
+    spacing: { kind: "number", min: 0 },
+  } satisfies Record<keyof StatBadge, Schema>,
+  required: ["icon"],
+};
+
+const generatorConfigSchema: Schema = {
+  kind: "object",
+  fields: {
+    templatesPath: { kind: "string" },
+    csvPath: { kind: "string" },
+    outputDir: { kind: "string" },
+    cardWidth: { kind: "number", min: 1 },
+    cardHeight: { kind: "number", min: 1 },
+    fonts: {
+      kind: "map",
+      values: {
+        kind: "either",
+        options: [
+          { kind: "string" },
+          {
+            kind: "list",
+            items: {
+              kind: "object",
+              fields: {
+                path: { kind: "string" },
+                weight: { kind: "string" },
+                style: { kind: "string", oneOf: FONT_STYLES },
+              } satisfies Record<keyof FontVariant, Schema>,
+              required: ["path"],
+            },
+          },
+        ],
+      },
+    },
+    layout: {
+      kind: "object",
+      fields: Object.fromEntries(
+        LAYOUT_KEYS.map((key) => [key, textLayoutSchema])
+      ),
+    },
+    cardArtX: { kind: "number" },
+    cardArtY: { kind: "number" },
+    cardArtWidth: { kind: "number", min: 0 },
+    cardArtHeight: { kind: "number", min: 0 },
+    cardArtStyle: {
+      kind: "object",
+      fields: {
+        fit: { kind: "string", oneOf: ART_FIT_MODES },
+        focus: {
+          kind: "object",
+          fields: {
+            x: { kind: "number", min: 0, max: 1 },
+            y: { kind: "number", min: 0, max: 1 },
+          } satisfies Record<keyof FocalPoint, Schema>,
+          required: ["x", "y"],
+        },
+        focusColumn: { kind: "string" },
+        cropColumn: { kind: "string" },
+        radius: { kind: "number", min: 0 },
+        mask: { kind: "string" },
+        shadow: {
+          kind: "object",
+          fields: {
+            color: { kind: "string" },
+            blur: { kind: "number", min: 0 },
+            offsetX: { kind: "number" },
+            offsetY: { kind: "number" },
+          } satisfies Record<keyof ArtShadow, Schema>,
+        },
+        vignette: {
+          kind: "object",
+          fields: {
+            color: { kind: "string" },
+            strength: { kind: "number", min: 0, max: 1 },
+            start: { kind: "number", min: 0, max: 1 },
+          } satisfies Record<keyof ArtVignette, Schema>,
+        },
+      } satisfies Record<keyof ArtStyle, Schema>,
+    },
+    layoutOverrides: {
+      kind: "object",
+      fields: {
+        elements: { kind: "map", values: layoutOverrideSchema },
+        rarities: { kind: "map", values: layoutOverrideSchema },
+        cards: { kind: "map", values: layoutOverrideSchema },
+      } satisfies Record<keyof LayoutOverrides, Schema>,
+    },
+    backgroundColor: { kind: "string" },
+    webpQuality: { kind: "number", min: 1, max: 100 },
+    outputFormat: { kind: "string", oneOf: OUTPUT_FORMATS },
+    outputFilename: { kind: "string" },
+    outputs: {
+      kind: "list",
+      items: {
+        kind: "object",
+        fields: {
+          name: { kind: "string" },
+          format: { kind: "string", oneOf: OUTPUT_FORMATS },
+          dir: { kind: "string" },
+          width: { kind: "number", min: 1 },
+          height: { kind: "number", min: 1 },
+          quality: { kind: "number", min: 1, max: 100 },
+          lossless: { kind: "boolean" },
+        } satisfies Record<keyof OutputTarget, Schema>,
+        required: ["name", "format"],
+      },
+    },
+    templateVariant: {
+      kind: "object",
+      fields: {
+        column: { kind: "string" },
+        rule: { kind: "string", oneOf: TEMPLATE_VARIANT_RULES },
+        rarityVariants: { kind: "map", values: { kind: "string" } },
+      } satisfies Record<keyof TemplateVariantConfig, Schema>,
+    },
+    rarityStyles: { kind: "map", values: rarityStyleSchema },
+    artSources: {
+      kind: "list",
+      items: {
+        kind: "object",
+        fields: {
+          type: { kind: "string", oneOf: ART_SOURCE_TYPES },
+          dir: { kind: "string" },
+          keys: { kind: "list", items: { kind: "string" } },
+          extensions: { kind: "list", items: { kind: "string" } },
+          column: { kind: "string" },
+          url: { kind: "string" },
+        },
+        required: ["type"],
+      },
+    },
+    artCache: {
+      kind: "object",
+      fields: {
+        enabled: { kind: "boolean" },
+        dir: { kind: "string" },
+        maxAge: { kind: "number", min: 0 },
+        offline: { kind: "boolean" },
+        timeout: { kind: "number", min: 0 },
+      } satisfies Record<keyof ArtCacheConfig, Schema>,
+    },
+    concurrency: { kind: "number", min: 1 },
+    validation: {
+      kind: "object",
+      fields: {
+        elements: { kind: "list", items: { kind: "string" } },
+        rarities: { kind: "list", items: { kind: "string" } },
+      } satisfies Record<keyof ValidationConfig, Schema>,
+    },
+    icons: { kind: "map", values: { kind: "string" } },
+    statIcons: {
+      kind: "object",
+      fields: {
+        cost: {
+          kind: "object",
+          fields: {
+            icon: { kind: "string" },
+            scale: { kind: "number", min: 0 },
+            spacing: { kind: "number", min: 0 },
+            maxIcons: { kind: "number", min: 0 },
+          } satisfies Record<keyof CostIcons, Schema>,
+          required: ["icon"],
+        },
+        attack: statBadgeSchema,
+        armor: statBadgeSchema,
+      } satisfies Record<keyof StatIcons, Schema>,
+    },
+    layers: { kind: "list", items: layerSchema },
+    print: {
+      kind: "object",
+      fields: {
+        dpi: { kind: "number", min: 1 },
+        bleed: { kind: "number", min: 0 },
+        bleedMode: { kind: "string", oneOf: BLEED_MODES },
+        safeZone: { kind: "number", min: 0 },
+        cropMarks: { kind: "boolean" },
+        dir: { kind: "string" },
+        sheet: {
+          kind: "object",
+          fields: {
+            size: { kind: "string", oneOf: Object.keys(SHEET_SIZES) },
+            landscape: { kind: "boolean" },
+            margin: { kind: "number", min: 0 },
+            gap: { kind: "number", min: 0 },
+            columns: { kind: "number", min: 1 },
+            rows: { kind: "number", min: 1 },
+          } satisfies Record<keyof SheetConfig, Schema>,
+        },
+        cmyk: { kind: "boolean" },
+        iccProfile: { kind: "string" },
+      } satisfies Record<keyof PrintConfig, Schema>,
+    },
+    contactSheet: {
+      kind: "object",
+      fields: {
+        columns: { kind: "number", min: 1 },
+        thumbnailWidth: { kind: "number", min: 1 },
+        gap: { kind: "number", min: 0 },
+        label: { kind: "string" },
+        fontFamily: textLayoutFields.fontFamily,
+        fontSize: { kind: "number", min: 1 },
+        color: { kind: "string" },
+        backgroundColor: { kind: "string" },
+        file: { kind: "string" },
+      } satisfies Record<keyof ContactSheetConfig, Schema>,
+    },
+    atlas: {
+      kind: "object",
+      fields: {
+        frameWidth: { kind: "number", min: 1 },
+        maxSize: { kind: "number", min: 1 },
+        padding: { kind: "number", min: 0 },
+        format: { kind: "string", oneOf: ATLAS_FORMATS },
+        file: { kind: "string" },
+      } satisfies Record<keyof AtlasConfig, Schema>,
+    },
+    cardBack: {
+      kind: "object",
+      fields: {
+        image: { kind: "string" },
+        backgroundColor: { kind: "string" },
+        layers: { kind: "list", items: layerSchema },
+        perElement: { kind: "boolean" },
+      } satisfies Record<keyof CardBackConfig, Schema>,
+    },
+    cardManifest: {
+      kind: "object",
+      fields: {
+        enabled: { kind: "boolean" },
+        csv: { kind: "boolean" },
+      } satisfies Record<keyof CardManifestConfig, Schema>,
+    },
+  } satisfies Record<Exclude<keyof GeneratorConfig, "artResolver">, Schema>,
+  required: ["cardWidth", "cardHeight"],
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+// The value type each schema kind accepts, to pick the option of an
+// "either" schema whose issues are worth reporting
+function matchesKind(value: unknown, schema: Schema): boolean {
+  switch (schema.kind) {
+    case "list":
+      return Array.isArray(value);
+    case "object":
+    case "map":
+    case "tagged":
+      return isPlainObject(value);
+    case "either":
+      return schema.options.some((option) => matchesKind(value, option));
+    default:
+      return typeof value === schema.kind;
+  }
+}
+
+function validate(
+  value: unknown,
+  schema: Schema,
+  at: string,
+  issues: string[],
+  partial: boolean = false
+): void {
+  switch (schema.kind) {
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        issues.push(`${at}: expected a number, got ${describe(value)}`);
+      } else if (schema.min !== undefined && value < schema.min) {
+        issues.push(`${at}: must be >= ${schema.min}, got ${value}`);
+      } else if (schema.max !== undefined && value > schema.max) {
+        issues.push(`${at}: must be <= ${schema.max}, got ${value}`);
+      }
+      return;
+    case "string":
+      if (typeof value !== "string") {
+        issues.push(`${at}: expected a string, got ${describe(value)}`);
+      } else if (schema.oneOf && !schema.oneOf.includes(value)) {
+        issues.push(
+          `${at}: "${value}" is not one of ${schema.oneOf.join(", ")}`
+        );
+      }
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") {
+        issues.push(`${at}: expected a boolean, got ${describe(value)}`);
+      }
+      return;
+    case "map":
+      if (!isPlainObject(value)) {
+        issues.push(`${at}: expected an object, got ${describe(value)}`);
+        return;
+      }
+      for (const [key, entry] of Object.entries(value)) {
+        validate(entry, schema.values, `${at}.${key}`, issues, partial);
+      }
+      return;
+    case "list":
+      if (!Array.isArray(value)) {
+        issues.push(`${at}: expected an array, got ${describe(value)}`);
+        return;
+      }
+      value.forEach((entry, index) =>
+        validate(entry, schema.items, `${at}[${index}]`, issues, partial)
+      );
+      return;
+    case "object":
+      if (!isPlainObject(value)) {
+        issues.push(`${at}: expected an object, got ${describe(value)}`);
+        return;
+      }
+      for (const [key, entry] of Object.entries(value)) {
+        const fieldSchema = schema.fields[key];
+        if (!fieldSchema) {
+          issues.push(
+            `${at}: unknown key "${key}" (expected one of: ${Object.keys(
+              schema.fields
+            ).join(", ")})`
+          );
+          continue;
+        }
+        validate(entry, fieldSchema, `${at}.${key}`, issues, partial);
+      }
+      if (partial) {
+        return;
+      }
+      for (const key of schema.required || []) {
+        if (value[key] === undefined) {
+          issues.push(`${at}: missing required key "${key}"`);
+        }
+      }
+      return;
+    case "either": {
+      const option = schema.options.find((o) => matchesKind(value, o));
+      if (!option) {
+        issues.push(
+          `${at}: expected ${schema.options
+            .map((o) => (o.kind === "list" ? "an array" : `a ${o.kind}`))
+            .join(" or ")}, got ${describe(value)}`
+        );
+        return;
+      }
+      validate(value, option, at, issues, partial);
+      return;
+    }
+    case "tagged": {
+      if (!isPlainObject(value)) {
+        issues.push(`${at}: expected an object, got ${describe(value)}`);
+        return;
+      }
+      const variant = schema.variants[String(value[schema.tag])];
+      if (!variant) {
+        issues.push(
+          `${at}.${schema.tag}: expected one of ${Object.keys(
+            schema.variants
+          ).join(", ")}, got ${JSON.stringify(value[schema.tag])}`
+        );
+        return;
+      }
+      validate(value, variant, at, issues, partial);
+      return;
+    }
+  }
+}
+
+function checkBox(
+  label: string,
+  box: { x?: number; y?: number; width?: number; height?: number },
+  cardWidth: number,
+  cardHeight: number,
+  issues: string[]
+): void {
+  const { x = 0, y = 0, width = 0, height = 0 } = box;
+  if (x < 0 || y < 0 || x + width > cardWidth || y + height > cardHeight) {
+    issues.push(
+      `${label}: box (x=${x}, y=${y}, ${width}x${height}) lies outside the ${cardWidth}x${cardHeight} card`
+    );
+  }
+}
+
+/**
+ * Checks that only make sense once a named config is fully resolved: boxes
+ * must fit on the card and every font family in the layout must be declared
+ * in `fonts` (CSS generic families like `sans-serif` excepted).
+ */
+function validateResolved(
+  config: GeneratorConfig,
+  at: string,
+  issues: string[]
+): void {
+  const { cardWidth, cardHeight } = config;
+  if (typeof cardWidth !== "number" || typeof cardHeight !== "number") {
+    return;
+  }
+
+  if (
+    config.cardArtX !== undefined ||
+    config.cardArtY !== undefined ||
+    config.cardArtWidth !== undefined ||
+    config.cardArtHeight !== undefined
+  ) {
+    checkBox(
+      `${at}.cardArt`,
+      {
+        x: config.cardArtX,
+        y: config.cardArtY,
+        width: config.cardArtWidth,
+        height: config.cardArtHeight,
+      },
+      cardWidth,
+      cardHeight,
+      issues
+    );
+  }
+
+  for (const [rarity, style] of Object.entries(config.rarityStyles || {})) {
+    if (style.gem) {
+      checkBox(
+        `${at}.rarityStyles.${rarity}.gem`,
+        style.gem,
+        cardWidth,
+        cardHeight,
+        issues
+      );
+    }
+  }
+
+  for (const [stat, icon] of Object.entries(config.statIcons || {})) {
+    if (icon && !(icon.icon in (config.icons || {}))) {
+      issues.push(
+        `${at}.statIcons.${stat}.icon: icon "${
+          icon.icon
+        }" is not declared in icons (declared: ${
+          Object.keys(config.icons || {}).join(", ") || "none"
+        })`
+      );
+    }
+  }
+
+  if (config.outputFilename !== undefined) {
+    const problem = checkFilenamePattern(config.outputFilename);
+    if (problem) {
+      issues.push(`${at}.outputFilename: ${problem}`);
+    }
+  }
+
+  // Two targets may share a folder, but not a file
+  const outputFiles = new Map<string, string>();
+  for (const target of config.outputs || []) {
+    const file = `${getTargetDir(target)}/*.${getOutputExtension(
+      target.format
+    )}`;
+    const other = outputFiles.get(file);
+    if (other !== undefined) {
+      issues.push(
+        `${at}.outputs: "${target.name}" and "${other}" would both write ${file}`
+      );
+    }
+    outputFiles.set(file, target.name);
+    if (
+      config.print &&
+      getTargetDir(target) === (config.print.dir ?? "print")
+    ) {
+      issues.push(
+        `${at}.outputs: "${
+          target.name
+        }" writes into the print export folder "${getTargetDir(
+          target
+        )}"; set print.dir or the target's dir`
+      );
+    }
+  }
+
+  // The contact sheet and atlas may not take the names card backs are
+  // written under
+  if (config.cardBack) {
+    const extraFiles = {
+      "contactSheet.file": config.contactSheet?.file,
+      "atlas.file": config.atlas?.file,
+    };
+    for (const [key, file] of Object.entries(extraFiles)) {
+      const name = file && path.basename(file, path.extname(file));
+      if (name && new RegExp(`^${CARD_BACK_NAME}(-|$)`, "i").test(name)) {
+        issues.push(
+          `${at}.${key}: "${file}" clashes with the card backs (${CARD_BACK_NAME}, ${CARD_BACK_NAME}-<element>)`
+        );
+      }
+    }
+  }
+
+  (config.artSources || []).forEach((source, index) => {
+    if (source.type === "local" && !source.dir) {
+      issues.push(`${at}.artSources[${index}]: local sources need a "dir"`);
+    }
+  });
+  // Without the cache, remote art is always downloaded
+  if (config.artCache?.offline && config.artCache.enabled === false) {
+    issues.push(
+      `${at}.artCache.offline: needs the cache, which "enabled": false turns off`
+    );
+  }
+
+  checkLayout(config, config.layout, `${at}.layout`, issues);
+
+  checkLayers(config, config.layers, `${at}.layers`, issues);
+  checkLayers(config, config.cardBack?.layers, `${at}.cardBack.layers`, issues);
+  if (config.contactSheet?.fontFamily) {
+    checkFontFamily(
+      config,
+      config.contactSheet.fontFamily,
+      `${at}.contactSheet.fontFamily`,
+      issues
+    );
+  }
+
+  // Overrides are checked as merged over the base layout, since that's what
+  // the affected cards are drawn with
+  for (const group of ["elements", "rarities", "cards"] as const) {
+    for (const [key, override] of Object.entries(
+      config.layoutOverrides?.[group] || {}
+    )) {
+      const overrideAt = `${at}.layoutOverrides.${group}.${key}`;
+      checkLayout(
+        config,
+        deepMerge(config.layout || {}, override.layout),
+        `${overrideAt}.layout`,
+        issues,
+        Object.keys(override.layout || {})
+      );
+      if (
+        override.cardArtX !== undefined ||
+        override.cardArtY !== undefined ||
+        override.cardArtWidth !== undefined ||
+        override.cardArtHeight !== undefined
+      ) {
+        checkBox(
+          `${overrideAt}.cardArt`,
+          {
+            x: override.cardArtX ?? config.cardArtX,
+            y: override.cardArtY ?? config.cardArtY,
+            width: override.cardArtWidth ?? config.cardArtWidth,
+            height: override.cardArtHeight ?? config.cardArtHeight,
+          },
+          cardWidth,
+          cardHeight,
+          issues
+        );
+      }
+    }
+  }
+}
+
+/** Text layers are checked like text layouts, other layers' boxes must fit. */
+function checkLayers(
+  config: GeneratorConfig,
+  layers: Layer[] = [],
+  at: string,
+  issues: string[]
+): void {
+  layers.forEach((layer, index) => {
+    const layerAt = `${at}[${index}]`;
+    if (layer.type === "text") {
+      checkTextLayout(config, layer, layerAt, issues);
+    } else {
+      checkBox(layerAt, layer, config.cardWidth!, config.cardHeight!, issues);
+    }
+  });
+}
+
+/** Checks the text layouts of `keys` (all of them by default). */
+function checkLayout(
+  config: GeneratorConfig,
+  layouts: Partial<CardLayout> = {},
+  at: string,
+  issues: string[],
+  keys: string[] = Object.keys(layouts)
+): void {
+  for (const key of keys) {
+    const layout = layouts[key as keyof CardLayout];
+    if (layout) {
+      checkTextLayout(config, layout, `${at}.${key}`, issues);
+    }
+  }
+}
+
+/**
+ * A text box must fit on the card, its fonts must be declared and
+ * `minFontSize` can't exceed `fontSize`.
+ */
+function checkTextLayout(
+  config: GeneratorConfig,
+  layout: Partial<TextLayout>,
+  at: string,
+  issues: string[]
+): void {
+  checkBox(at, layout, config.cardWidth!, config.cardHeight!, issues);
+  if (layout.fontFamily) {
+    checkFontFamily(config, layout.fontFamily, `${at}.fontFamily`, issues);
+  }
+  if (
+    layout.minFontSize !== undefined &&
+    layout.fontSize !== undefined &&
+    layout.minFontSize > layout.fontSize
+  ) {
+    issues.push(
+      `${at}.minFontSize: ${layout.minFontSize} is larger than fontSize ${layout.fontSize}`
+    );
+  }
+}
+
+/** Every family in a fallback chain must be declared in `fonts`. */
+function checkFontFamily(
+  config: GeneratorConfig,
+  fontFamily: string | string[],
+  at: string,
+  issues: string[]
+): void {
+  const fonts = config.fonts || {};
+  for (const family of getFontFamilies(fontFamily)) {
+    if (!(family in fonts) && !GENERIC_FONT_FAMILIES.includes(family)) {
+      issues.push(
+        `${at}: font "${family}" is not declared in fonts (declared: ${
+          Object.keys(fonts).join(", ") || "none"
+        })`
+      );
+    }
+  }
+}
+
+// Nested settings (fonts, layout, ...) are merged key by key, so a config
+// only lists what differs from the one it extends
+function mergeConfigs(
+  base: GeneratorConfig,
+  override: GeneratorConfig
+): GeneratorConfig {
+  return deepMerge(base, override);
+}
+
+function resolveNamedConfig(
+  file: ConfigFile,
+  name: string,
+  seen: string[] = []
+): GeneratorConfig {
+  if (seen.includes(name)) {
+    throw new Error(
+      `Circular "extends" chain: ${[...seen, name].join(" -> ")}`
+    );
+  }
+
+  const named = file.configs[name];
+  if (!named) {
+    throw new Error(
+      `Unknown config "${name}" (available: ${Object.keys(file.configs).join(
+        ", "
+      )})`
+    );
+  }
+
+  const { extends: parentName, ...config } = named;
+  if (!parentName) {
+    return config;
+  }
+  return mergeConfigs(
+    resolveNamedConfig(file, parentName, [...seen, name]),
+    config
+  );
+}
+
+function resolvePaths(
+  config: GeneratorConfig,
+  baseDir: string
+): GeneratorConfig {
+  const resolve = (p: string | undefined) =>
+    p === undefined ? undefined : path.resolve(baseDir, p);
+  // A src that is a URL or comes entirely from a column is left as is
+  const resolveSource = (src: string) =>
+    isRemoteUrl(src) || src.startsWith("{{") ? src : path.resolve(baseDir, src);
+  const resolveLayers = (layers: Layer[] | undefined) =>
+    layers?.map((layer) =>
+      layer.type === "image"
+        ? { ...layer, src: resolveSource(layer.src) }
+        : layer
+    );
+
+  return {
+    ...config,
+    templatesPath: resolve(config.templatesPath),
+    csvPath: resolve(config.csvPath),
+    outputDir: resolve(config.outputDir),
+    fonts: config.fonts
+      ? Object.fromEntries(
+          Object.entries(config.fonts).map(([name, source]) => [
+            name,
+            typeof source === "string"
+              ? path.resolve(baseDir, source)
+              : source.map((variant) => ({
+                  ...variant,
+                  path: path.resolve(baseDir, variant.path),
+                })),
+          ])
+        )
+      : undefined,
+    icons: config.icons
+      ? Object.fromEntries(
+          Object.entries(config.icons).map(([name, iconPath]) => [
+            name,
+            path.resolve(baseDir, iconPath),
+          ])
+        )
+      : undefined,
+    cardArtStyle: config.cardArtStyle && {
+      ...config.cardArtStyle,
+      mask: resolve(config.cardArtStyle.mask),
+    },
+    layers: resolveLayers(config.layers),
+    cardBack: config.cardBack && {
+      ...config.cardBack,
+      image: config.cardBack.image && resolveSource(config.cardBack.image),
+      layers: resolveLayers(config.cardBack.layers),
+    },
+    // The built-in profile's name is passed to libvips as it is
+    print: config.print && {
+      ...config.print,
+      iccProfile:
+        config.print.iccProfile === undefined ||
+        config.print.iccProfile === BUILTIN_CMYK_PROFILE
+          ? config.print.iccProfile
+          : path.resolve(baseDir, config.print.iccProfile),
+    },
+    artCache: config.artCache && {
+      ...config.artCache,
+      dir: resolve(config.artCache.dir),
+    },
+    artSources: config.artSources?.map((source) =>
+      source.type === "local"
+        ? { ...source, dir: path.resolve(baseDir, source.dir) }
+        : source
+    ),
+    rarityStyles: config.rarityStyles
+      ? Object.fromEntries(
+          Object.entries(config.rarityStyles).map(([rarity, style]) => [
+            rarity,
+            {
+              ...style,
+              frameOverlay: resolve(style.frameOverlay),
+              gem: style.gem && {
+                ...style.gem,
+                icon: path.resolve(baseDir, style.gem.icon),
+              },
+            },
+          ])
+        )
+      : undefined,
+  };
+}
+
+export async function readConfigFile(configPath: string): Promise<ConfigFile> {
+  const source = await fs.readFile(configPath, "utf8");
+  const extension = path.extname(configPath).toLowerCase();
+
+  let raw: unknown;
+  try {
+    raw =
+      extension === ".yaml" || extension === ".yml"
+        ? YAML.parse(source)
+        : JSON.parse(source);
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    throw new ConfigError(configPath, [
+      `could not parse file: ${errorMessage}`,
+    ]);
+  }
+
+  if (!isPlainObject(raw)) {
+    throw new ConfigError(configPath, [
+      `expected an object at the top level, got ${describe(raw)}`,
+    ]);
+  }
+
+  if (!("configs" in raw)) {
+    return { default: "default", configs: { default: raw } };
+  }
+
+  const issues: string[] = [];
+  for (const key of Object.keys(raw)) {
+    if (key !== "default" && key !== "configs") {
+      issues.push(
+        `unknown top-level key "${key}" (expected one of: default, configs)`
+      );
+    }
+  }
+  if (raw.default !== undefined && typeof raw.default !== "string") {
+    issues.push(`default: expected a string, got ${describe(raw.default)}`);
+  }
+  if (!isPlainObject(raw.configs)) {
+    issues.push(`configs: expected an object, got ${describe(raw.configs)}`);
+  }
+  if (issues.length) {
+    throw new ConfigError(configPath, issues);
+  }
+
+  return raw as unknown as ConfigFile;
+}
+
+export function listConfigNames(file: ConfigFile): string[] {
+  return Object.keys(file.configs);
+}
+
+/**
+ * Loads, resolves and validates one named config from a JSON or YAML file.
+ * Relative paths in the file are resolved against the file's directory.
+ */
+export async function loadGeneratorConfig(
+  configPath: string,
+  configName?: string
+): Promise<GeneratorConfig> {
+  const file = await readConfigFile(configPath);
+  const name = configName || file.default || listConfigNames(file)[0];
+
+  const issues: string[] = [];
+  for (const [key, named] of Object.entries(file.configs)) {
+    if (!isPlainObject(named)) {
+      issues.push(`configs.${key}: expected an object, got ${describe(named)}`);
+      continue;
+    }
+    const { extends: parentName, ...rest } = named;
+    if (parentName !== undefined && typeof parentName !== "string") {
+      issues.push(
+        `configs.${key}.extends: expected a string, got ${describe(parentName)}`
+      );
+    }
+    // Named configs may be partial overrides of their parent, so required
+    // keys are only enforced on the resolved config below.
+    validate(rest, generatorConfigSchema, `configs.${key}`, issues, true);
+  }
+  if (issues.length) {
+    throw new ConfigError(configPath, issues);
+  }
+
+  let resolved: GeneratorConfig;
+  try {
+    resolved = resolveNamedConfig(file, name);
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    throw new ConfigError(configPath, [errorMessage]);
+  }
+
+  validate(resolved, generatorConfigSchema, `configs.${name}`, issues);
+  validateResolved(resolved, `configs.${name}`, issues);
+  if (issues.length) {
+    throw new ConfigError(configPath, issues);
+  }
+
+  return resolvePaths(resolved, path.dirname(path.resolve(configPath)));
+}
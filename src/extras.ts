@@ -0,0 +1,251 @@
+import { createCanvas, loadImage, Canvas } from "canvas";
+import * as fs from "fs-extra";
+import * as path from "path";
+import sharp from "sharp";
+import type { Box } from "./card-generator";
+import { formatFontFamilies, getFontFamilies } from "./fonts";
+import type { Layer } from "./layers";
+import type { AtlasFormat } from "./outputs";
+
+/**
+ * A grid of small card images, each labelled from a `{{Column}}` template,
+ * written to `outputDir` after every full build.
+ */
+export interface ContactSheetConfig {
+  columns?: number;
+  // Width of each card on the sheet, in pixels
+  thumbnailWidth?: number;
+  gap?: number;
+  label?: string;
+  fontFamily?: string | string[];
+  fontSize?: number;
+  color?: string;
+  backgroundColor?: string;
+  file?: string;
+}
+
+/**
+ * Every card packed into one image (or several, past `maxSize`) with a
+ * TexturePacker-style JSON frame map keyed by `Card`, for game engines.
+ */
+export interface AtlasConfig {
+  // Width of each frame; the height keeps the card's proportions
+  frameWidth?: number;
+  // Largest width and height of one atlas image
+  maxSize?: number;
+  // Space between frames, against texture bleeding
+  padding?: number;
+  format?: AtlasFormat;
+  // Name of the image and JSON files, without extension
+  file?: string;
+}
+
+/**
+ * The back of the cards, drawn with the same pipeline as the fronts and
+ * written for every output target.
+ */
+export interface CardBackConfig {
+  // Stretched over the whole back; may be a template such as
+  // "./backs/{{Element}}.png"
+  image?: string;
+  backgroundColor?: string;
+  layers?: Layer[];
+  // One back per Element (named `back-<element>`) instead of a single `back`
+  perElement?: boolean;
+}
+
+/** A card image and the label or key it goes by. */
+export interface SheetImage {
+  key: string;
+  file: string;
+}
+
+interface AtlasPage {
+  width: number;
+  height: number;
+  frames: Box[];
+}
+
+/**
+ * Places `count` frames of the same size in rows, starting a new page
+ * whenever one would grow past `maxSize`.
+ */
+export function packFrames(
+  count: number,
+  frameWidth: number,
+  frameHeight: number,
+  maxSize: number,
+  padding: number
+): AtlasPage[] {
+  const columns = Math.floor((maxSize + padding) / (frameWidth + padding));
+  const rows = Math.floor((maxSize + padding) / (frameHeight + padding));
+  if (columns < 1 || rows < 1) {
+    throw new Error(
+      `Atlas frames of ${frameWidth}x${frameHeight} don't fit in ${maxSize}x${maxSize}`
+    );
+  }
+
+  const pages: AtlasPage[] = [];
+  for (let start = 0; start < count; start += columns * rows) {
+    const pageCount = Math.min(columns * rows, count - start);
+    const pageColumns = Math.min(columns, pageCount);
+    const pageRows = Math.ceil(pageCount / columns);
+    const frames = Array.from({ length: pageCount }, (_, index) => ({
+      x: (index % columns) * (frameWidth + padding),
+      y: Math.floor(index / columns) * (frameHeight + padding),
+      width: frameWidth,
+      height: frameHeight,
+    }));
+    pages.push({
+      width: pageColumns * (frameWidth + padding) - padding,
+      height: pageRows * (frameHeight + padding) - padding,
+      frames,
+    });
+  }
+  return pages;
+}
+
+/**
+ * Writes the atlas image(s) and their JSON frame maps. A single page is
+ * `<file>.png` and `<file>.json`; more are numbered `<file>-1.png` and so on.
+ * Returns the written paths.
+ */
+export async function writeAtlas(
+  images: SheetImage[],
+  config: AtlasConfig,
+  cardWidth: number,
+  cardHeight: number,
+  outputDir: string
+): Promise<string[]> {
+  const frameWidth = config.frameWidth || 256;
+  const frameHeight = Math.round((frameWidth * cardHeight) / cardWidth);
+  const format = config.format || "png";
+  const basename = config.file || "atlas";
+  const pages = packFrames(
+    images.length,
+    frameWidth,
+    frameHeight,
+    config.maxSize || 4096,
+    config.padding ?? 2
+  );
+
+  const written: string[] = [];
+  let next = 0;
+  for (const [pageIndex, page] of pages.entries()) {
+    const name = pages.length > 1 ? `${basename}-${pageIndex + 1}` : basename;
+    const pageImages = images.slice(next, next + page.frames.length);
+    next += page.frames.length;
+
+    const composites = await Promise.all(
+      pageImages.map(async (image, index) => ({
+        input: await sharp(image.file)
+          .resize(frameWidth, frameHeight, { fit: "fill" })
+          .png()
+          .toBuffer(),
+        left: page.frames[index].x,
+        top: page.frames[index].y,
+      }))
+    );
+    const atlas = sharp({
+      create: {
+        width: page.width,
+        height: page.height,
+        channels: 4,
+        background: { r: 0, g: 0, b: 0, alpha: 0 },
+      },
+    }).composite(composites);
+    const imagePath = path.join(outputDir, `${name}.${format}`);
+    await fs.outputFile(
+      imagePath,
+      await (format === "webp"
+        ? atlas.webp({ lossless: true })
+        : atlas.png()
+      ).toBuffer()
+    );
+
+    const frames = Object.fromEntries(
+      pageImages.map((image, index) => {
+        const { x, y, width, height } = page.frames[index];
+        return [
+          image.key,
+          {
+            frame: { x, y, w: width, h: height },
+            rotated: false,
+            trimmed: false,
+            spriteSourceSize: { x: 0, y: 0, w: width, h: height },
+            sourceSize: { w: width, h: height },
+          },
+        ];
+      })
+    );
+    const jsonPath = path.join(outputDir, `${name}.json`);
+    await fs.outputJson(
+      jsonPath,
+      {
+        frames,
+        meta: {
+          image: path.basename(imagePath),
+          format: "RGBA8888",
+          size: { w: page.width, h: page.height },
+          scale: "1",
+        },
+      },
+      { spaces: 2 }
+    );
+    written.push(imagePath, jsonPath);
+  }
+  return written;
+}
+
+/** Draws the contact sheet; `key` is each card's label. */
+export async function drawContactSheet(
+  images: SheetImage[],
+  config: ContactSheetConfig,
+  cardWidth: number,
+  cardHeight: number
+): Promise<Canvas> {
+  const columns = Math.max(1, Math.min(config.columns || 8, images.length));
+  const rows = Math.ceil(images.length / columns);
+  const gap = config.gap ?? 16;
+  const fontSize = config.fontSize || 16;
+  const thumbWidth = config.thumbnailWidth || 200;
+  const thumbHeight = Math.round((thumbWidth * cardHeight) / cardWidth);
+  const labelHeight = Math.ceil(fontSize * 1.5);
+  const cellHeight = thumbHeight + labelHeight;
+
+  const canvas = createCanvas(
+    gap + columns * (thumbWidth + gap),
+    gap + rows * (cellHeight + gap)
+  );
+  const ctx = canvas.getContext("2d");
+  ctx.fillStyle = config.backgroundColor || "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.font = `${fontSize}px ${formatFontFamilies(
+    getFontFamilies(config.fontFamily || "sans-serif")
+  )}`;
+  ctx.fillStyle = config.color || "#000000";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+
+  for (const [index, image] of images.entries()) {
+    const x = gap + (index % columns) * (thumbWidth + gap);
+    const y = gap + Math.floor(index / columns) * (cellHeight + gap);
+    const thumbnail = await loadImage(
+      await sharp(image.file)
+        .resize(thumbWidth, thumbHeight, { fit: "fill" })
+        .png()
+        .toBuffer()
+    );
+    ctx.drawImage(thumbnail, x, y, thumbWidth, thumbHeight);
+
+    // Long names are squeezed rather than cut off
+    ctx.fillText(
+      image.key,
+      x + thumbWidth / 2,
+      y + thumbHeight + labelHeight / 2,
+      thumbWidth
+    );
+  }
+  return canvas;
+}
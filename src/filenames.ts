@@ -0,0 +1,108 @@
+import * as path from "path";
+import { OUTPUT_FORMATS, getOutputExtension } from "./outputs";
+import { renderTemplate, type Row } from "./template";
+
+export const DEFAULT_OUTPUT_FILENAME = "{{Card}}";
+
+// Longest slug of a single value, well within every filesystem's limit
+const MAX_SLUG_LENGTH = 100;
+
+// Names Windows refuses for files, whatever the extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)$/i;
+
+/**
+ * Makes a CSV value safe as (part of) a file name while keeping it readable:
+ * letters and digits of any script are kept, accents included, everything
+ * else (dots and slashes too) becomes a dash. "Fire Drake" becomes
+ * "fire-drake", "Ünïcorn" becomes "ünïcorn" and "火の鳥" stays "火の鳥".
+ */
+export function slugify(value: string): string {
+  const slug = value
+    // Fullwidth letters and ligatures become their plain forms
+    .normalize("NFKC")
+    .toLowerCase()
+    // "Bug's" reads better as "bugs" than "bug-s"
+    .replace(/['’]/g, "")
+    .replace(/[^\p{L}\p{M}\p{N}_]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, "");
+  return RESERVED_NAMES.test(slug) ? `${slug}_` : slug;
+}
+
+/**
+ * Drops an image extension from the end of a filename pattern, since every
+ * output target appends its own: `{{Card}}.webp` is the same as `{{Card}}`.
+ */
+export function stripImageExtension(pattern: string): string {
+  const extensions = OUTPUT_FORMATS.flatMap((format) => [
+    format,
+    getOutputExtension(format),
+  ]);
+  const extension = path.extname(pattern).slice(1).toLowerCase();
+  return extensions.includes(extension)
+    ? pattern.slice(0, -extension.length - 1)
+    : pattern;
+}
+
+/**
+ * A card's output path without extension, relative to its target folder.
+ * Column values are slugified and may not add folders; `/` in the pattern
+ * itself does. Empty folder names are skipped.
+ */
+export function renderFilename(pattern: string, row: Row): string {
+  const rendered = renderTemplate(stripImageExtension(pattern), row, {
+    transform: slugify,
+  });
+  return rendered
+    .split("/")
+    .filter((segment) => segment && segment !== ".")
+    .join("/");
+}
+
+/** Problems with a filename pattern itself, before any card is rendered. */
+export function checkFilenamePattern(pattern: string): string | undefined {
+  const literal = stripImageExtension(pattern).replace(/\{\{[^{}]*\}\}/g, "x");
+  if (path.isAbsolute(literal) || /^[a-z]:/i.test(literal)) {
+    return `"${pattern}" must be relative to the output folder`;
+  }
+  if (literal.split(/[\\/]/).includes("..")) {
+    return `"${pattern}" may not point outside the output folder with ".."`;
+  }
+  if (!/\{\{/.test(pattern)) {
+    return `"${pattern}" doesn't use any column, so every card would get the same name`;
+  }
+  return undefined;
+}
+
+/**
+ * Groups of cards that would be written to the same file. Names are compared
+ * case-insensitively, since macOS and Windows would treat them as one.
+ */
+export function findCollisions(
+  names: Array<{ card: string; name: string }>
+): Array<{ name: string; cards: string[] }> {
+  const groups = new Map<string, { name: string; cards: string[] }>();
+  for (const { card, name } of names) {
+    const key = name.toLowerCase();
+    const group = groups.get(key) || { name, cards: [] };
+    group.cards.push(card);
+    groups.set(key, group);
+  }
+  return [...groups.values()].filter((group) => group.cards.length > 1);
+}
+
+export class FilenameCollisionError extends Error {
+  constructor(
+    public readonly collisions: Array<{ name: string; cards: string[] }>
+  ) {
+    super(
+      `${
+        collisions.length
+      } output filename(s) used by more than one card; add a column such as {{Card}} to outputFilename:\n${collisions
+        .map(({ name, cards }) => `  - ${name}: cards ${cards.join(", ")}`)
+        .join("\n")}`
+    );
+    this.name = "FilenameCollisionError";
+  }
+}
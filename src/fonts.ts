@@ -0,0 +1,201 @@
+import * as fs from "fs-extra";
+
+export const FONT_STYLES = ["normal", "italic", "oblique"] as const;
+
+/** One file of a font family, e.g. its bold or italic cut. */
+export interface FontVariant {
+  path: string;
+  // CSS weight such as "bold" or "700"; defaults to normal
+  weight?: string;
+  style?: (typeof FONT_STYLES)[number];
+}
+
+/** A single font file, or every weight/style variant of a family. */
+export type FontSource = string | FontVariant[];
+
+// CSS generic families, resolved by the system instead of the `fonts` config
+export const GENERIC_FONT_FAMILIES = [
+  "serif",
+  "sans-serif",
+  "monospace",
+  "cursive",
+  "fantasy",
+  "system-ui",
+  "emoji",
+];
+
+/** A text field with characters none of its configured fonts can draw. */
+export interface GlyphWarning {
+  card: string;
+  field: string;
+  characters: string[];
+  fonts: string[];
+}
+
+export function getFontVariants(source: FontSource): FontVariant[] {
+  return typeof source === "string" ? [{ path: source }] : source;
+}
+
+/**
+ * Normalizes a layout's `fontFamily`, which may be a single family, a
+ * comma-separated CSS list or an array, into an ordered fallback chain.
+ */
+export function getFontFamilies(fontFamily: string | string[]): string[] {
+  return (Array.isArray(fontFamily) ? fontFamily : fontFamily.split(","))
+    .map((family) => family.trim().replace(/^["']|["']$/g, ""))
+    .filter(Boolean);
+}
+
+/** Formats a fallback chain for `ctx.font`, quoting names with spaces. */
+export function formatFontFamilies(families: string[]): string {
+  return families
+    .map((family) =>
+      /^[\w-]+$/.test(family) && !/^\d/.test(family) ? family : `"${family}"`
+    )
+    .join(", ");
+}
+
+type Ranges = Array<[number, number]>;
+
+/**
+ * Reads the code point ranges a TrueType/OpenType font maps to glyphs, from
+ * its `cmap` table (formats 4 and 12). Font collections use their first font.
+ */
+export function readCharacterRanges(font: Buffer): Ranges {
+  let directory = 0;
+  if (font.toString("latin1", 0, 4) === "ttcf") {
+    directory = font.readUInt32BE(12);
+  }
+
+  const numTables = font.readUInt16BE(directory + 4);
+  let cmap = -1;
+  for (let i = 0; i < numTables; i++) {
+    const record = directory + 12 + i * 16;
+    if (font.toString("latin1", record, record + 4) === "cmap") {
+      cmap = font.readUInt32BE(record + 8);
+    }
+  }
+  if (cmap < 0) {
+    throw new Error("font has no cmap table");
+  }
+
+  // Prefer full Unicode (format 12) over BMP-only (format 4) subtables
+  const subtables: Array<{ format: number; offset: number }> = [];
+  const count = font.readUInt16BE(cmap + 2);
+  for (let i = 0; i < count; i++) {
+    const record = cmap + 4 + i * 8;
+    const platform = font.readUInt16BE(record);
+    const encoding = font.readUInt16BE(record + 2);
+    const offset = cmap + font.readUInt32BE(record + 4);
+    if (platform === 0 || (platform === 3 && [1, 10].includes(encoding))) {
+      subtables.push({ format: font.readUInt16BE(offset), offset });
+    }
+  }
+  const subtable =
+    subtables.find(({ format }) => format === 12) ||
+    subtables.find(({ format }) => format === 4);
+  if (!subtable) {
+    throw new Error("font has no Unicode cmap subtable");
+  }
+
+  const { offset } = subtable;
+  const ranges: Ranges = [];
+  if (subtable.format === 12) {
+    const groups = font.readUInt32BE(offset + 12);
+    for (let i = 0; i < groups; i++) {
+      const group = offset + 16 + i * 12;
+      ranges.push([font.readUInt32BE(group), font.readUInt32BE(group + 4)]);
+    }
+    return ranges;
+  }
+
+  const segCount = font.readUInt16BE(offset + 6) / 2;
+  const endCodes = offset + 14;
+  const startCodes = endCodes + segCount * 2 + 2;
+  const idDeltas = startCodes + segCount * 2;
+  const idRangeOffsets = idDeltas + segCount * 2;
+
+  for (let i = 0; i < segCount; i++) {
+    const start = font.readUInt16BE(startCodes + i * 2);
+    const end = font.readUInt16BE(endCodes + i * 2);
+    const rangeOffset = font.readUInt16BE(idRangeOffsets + i * 2);
+    if (start === 0xffff) continue;
+
+    if (rangeOffset === 0) {
+      ranges.push([start, end]);
+      continue;
+    }
+    // Glyph ids come from glyphIdArray; 0 means the code point is unmapped
+    for (let code = start; code <= end; code++) {
+      const glyph = idRangeOffsets + i * 2 + rangeOffset + (code - start) * 2;
+      if (glyph + 2 <= font.length && font.readUInt16BE(glyph) !== 0) {
+        const last = ranges[ranges.length - 1];
+        if (last && last[1] === code - 1) last[1] = code;
+        else ranges.push([code, code]);
+      }
+    }
+  }
+  return ranges;
+}
+
+// Characters that are never drawn on their own
+const INVISIBLE = /[\s\p{Cc}\p{Cf}\uFE00-\uFE0F]/u;
+
+/**
+ * Knows which characters each configured font family can draw, so text can
+ * be checked for characters that would render as tofu (empty boxes).
+ */
+export class GlyphCoverage {
+  private families = new Map<string, Ranges[]>();
+
+  public async addFont(family: string, fontPath: string): Promise<void> {
+    const ranges = readCharacterRanges(await fs.readFile(fontPath));
+    this.families.set(family, [...(this.families.get(family) || []), ranges]);
+  }
+
+  public clear(): void {
+    this.families.clear();
+  }
+
+  private covers(family: string, codePoint: number): boolean {
+    return (this.families.get(family) || []).some((ranges) =>
+      ranges.some(([start, end]) => codePoint >= start && codePoint <= end)
+    );
+  }
+
+  /**
+   * Returns the distinct characters of `text` that no family of the chain
+   * covers. Families whose files couldn't be read (or system fonts) are not
+   * checked; if none can be, nothing is reported.
+   */
+  public findMissing(text: string, families: string[]): string[] {
+    const known = families.filter((family) => this.families.has(family));
+    if (!known.length) {
+      return [];
+    }
+
+    const missing = new Set<string>();
+    for (const char of text) {
+      if (INVISIBLE.test(char)) continue;
+      const codePoint = char.codePointAt(0)!;
+      if (!known.some((family) => this.covers(family, codePoint))) {
+        missing.add(char);
+      }
+    }
+    return [...missing];
+  }
+}
+
+export function formatGlyphReport(warnings: GlyphWarning[]): string {
+  const lines = [
+    `🔣 ${warnings.length} text field(s) use characters their fonts can't draw:`,
+  ];
+  for (const warning of warnings) {
+    lines.push(
+      `   ⚠️  card ${warning.card}, ${warning.field}: ${warning.characters
+        .map((char) => `"${char}"`)
+        .join(" ")} not in ${warning.fonts.join(", ")}`
+    );
+  }
+  return lines.join("\n");
+}
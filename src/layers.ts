@@ -0,0 +1,183 @@
+import type { CanvasRenderingContext2D } from "canvas";
+import * as path from "path";
+import QRCode from "qrcode";
+import { isRemoteUrl } from "./art-resolver";
+import type { Box, TextLayout } from "./card-generator";
+
+export const LAYER_TYPES = ["text", "image", "shape", "qr"] as const;
+export const SHAPES = ["rect", "ellipse"] as const;
+export const QR_ERROR_CORRECTION = ["L", "M", "Q", "H"] as const;
+
+/**
+ * Where the built-in parts of a card sit in the z-order. Layers are drawn
+ * above the card text unless their `z` puts them lower; layers with the same
+ * `z` keep their config order.
+ */
+export const BUILTIN_Z = {
+  template: 0,
+  art: 100,
+  rarityStyle: 200,
+  text: 300,
+};
+
+export const DEFAULT_LAYER_Z = 400;
+
+interface LayerBase {
+  // Shown in logs and reports, defaults to "layers[<index>]"
+  name?: string;
+  z?: number;
+  opacity?: number;
+}
+
+/** Text from a `{{Column}}` template, laid out like a built-in field. */
+export interface TextLayer extends LayerBase, TextLayout {
+  type: "text";
+  text: string;
+}
+
+/**
+ * An image file or URL. `src` may be a template like `./sets/{{Set}}.png`;
+ * relative paths are resolved against the config file, unless `src` starts
+ * with a column (e.g. `{{Symbol}}`), whose paths are used as they are.
+ */
+export interface ImageLayer extends LayerBase, Box {
+  type: "image";
+  src: string;
+}
+
+export interface ShapeLayer extends LayerBase, Box {
+  type: "shape";
+  shape: (typeof SHAPES)[number];
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  // Corner radius of a rect
+  radius?: number;
+}
+
+/** A QR code of `data`, drawn as a square centered in its box. */
+export interface QrLayer extends LayerBase, Box {
+  type: "qr";
+  data: string;
+  color?: string;
+  // Transparent when not set
+  background?: string;
+  errorCorrection?: (typeof QR_ERROR_CORRECTION)[number];
+}
+
+export type Layer = TextLayer | ImageLayer | ShapeLayer | QrLayer;
+
+export function getLayerName(layer: Layer, index: number): string {
+  return layer.name || `layers[${index}]`;
+}
+
+/** The template strings of a layer that read CSV columns. */
+export function layerTemplates(layer: Layer): string[] {
+  switch (layer.type) {
+    case "text":
+      return [layer.text];
+    case "image":
+      return [layer.src];
+    case "qr":
+      return [layer.data];
+    default:
+      return [];
+  }
+}
+
+/**
+ * The folder a templated image layer picks its files from, e.g. `./sets` for
+ * `./sets/{{Set}}.png`. Undefined for fixed files, URLs, and paths whose
+ * folder comes from a column.
+ */
+export function getImageFolder(layer: ImageLayer): string | undefined {
+  const column = layer.src.indexOf("{{");
+  if (column === -1 || isRemoteUrl(layer.src)) {
+    return undefined;
+  }
+  // The "x" stands in for the column, so "./sets/" gives "./sets"
+  const folder = path.dirname(`${layer.src.slice(0, column)}x`);
+  return folder === "." ? undefined : folder;
+}
+
+/** Adds a rectangle with rounded corners to the current path. */
+export function traceRoundedRect(
+  ctx: CanvasRenderingContext2D,
+  box: Box,
+  radius: number
+): void {
+  const { x, y, width, height } = box;
+  const r = Math.min(radius, width / 2, height / 2);
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + width, y, x + width, y + height, r);
+  ctx.arcTo(x + width, y + height, x, y + height, r);
+  ctx.arcTo(x, y + height, x, y, r);
+  ctx.arcTo(x, y, x + width, y, r);
+  ctx.closePath();
+}
+
+export function drawShape(
+  ctx: CanvasRenderingContext2D,
+  layer: ShapeLayer
+): void {
+  const { x, y, width, height } = layer;
+  ctx.beginPath();
+  if (layer.shape === "ellipse") {
+    ctx.ellipse(
+      x + width / 2,
+      y + height / 2,
+      width / 2,
+      height / 2,
+      0,
+      0,
+      Math.PI * 2
+    );
+  } else {
+    traceRoundedRect(ctx, layer, layer.radius || 0);
+  }
+
+  if (layer.fill) {
+    ctx.fillStyle = layer.fill;
+    ctx.fill();
+  }
+  if (layer.stroke) {
+    ctx.strokeStyle = layer.stroke;
+    ctx.lineWidth = layer.strokeWidth || 1;
+    ctx.stroke();
+  }
+}
+
+export function drawQrCode(
+  ctx: CanvasRenderingContext2D,
+  layer: QrLayer,
+  data: string
+): void {
+  const { modules } = QRCode.create(data, {
+    errorCorrectionLevel: layer.errorCorrection || "M",
+  });
+  // A quiet zone of 2 modules around the code keeps it scannable
+  const count = modules.size + 4;
+  const size = Math.min(layer.width, layer.height);
+  const moduleSize = size / count;
+  const left = layer.x + (layer.width - size) / 2;
+  const top = layer.y + (layer.height - size) / 2;
+
+  if (layer.background) {
+    ctx.fillStyle = layer.background;
+    ctx.fillRect(left, top, size, size);
+  }
+  ctx.fillStyle = layer.color || "#000";
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) {
+        // Overlap by a hair so anti-aliasing leaves no seams between modules
+        ctx.fillRect(
+          left + (col + 2) * moduleSize,
+          top + (row + 2) * moduleSize,
+          moduleSize + 0.5,
+          moduleSize + 0.5
+        );
+      }
+    }
+  }
+}
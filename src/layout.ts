@@ -0,0 +1,106 @@
+import type { Box, CardData, CardLayout, TextLayout } from "./card-generator";
+
+/**
+ * Layout changes for a group of cards. Text layouts are merged key by key
+ * over the base layout, so an override only lists what differs, e.g.
+ * `{ "layout": { "name": { "color": "#fff" } }, "cardArtY": 420 }`.
+ */
+export interface LayoutOverride {
+  layout?: { [K in keyof CardLayout]?: Partial<TextLayout> };
+  cardArtX?: number;
+  cardArtY?: number;
+  cardArtWidth?: number;
+  cardArtHeight?: number;
+}
+
+/**
+ * Overrides keyed by Element, Rarity and Card number. A card gets all the
+ * ones that match it, applied in that order, so a per-card override wins
+ * over its rarity's, which wins over its element's.
+ */
+export interface LayoutOverrides {
+  elements?: Record<string, LayoutOverride>;
+  rarities?: Record<string, LayoutOverride>;
+  cards?: Record<string, LayoutOverride>;
+}
+
+/** The layout one card is actually drawn with. */
+export interface EffectiveLayout {
+  layout: CardLayout;
+  cardArt: Box;
+  // Config paths of the overrides that were applied, in order
+  applied: string[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Recursively merges `override` into `base`. Arrays and other values replace
+ * what they override; undefined values are ignored.
+ */
+export function deepMerge<T>(base: T, override: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override === undefined ? base : (override as T);
+  }
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = deepMerge(merged[key], value);
+  }
+  return merged as T;
+}
+
+/**
+ * The overrides that apply to `card`, in the order they are merged. Rarity
+ * style text colors count as part of the rarity, before its own override.
+ */
+export function matchOverrides(
+  card: CardData,
+  overrides: LayoutOverrides,
+  textColors: Partial<Record<keyof CardLayout, string>> = {}
+): Array<[string, LayoutOverride]> {
+  const matches: Array<[string, LayoutOverride | undefined]> = [
+    [
+      `layoutOverrides.elements.${card.Element}`,
+      overrides.elements?.[card.Element],
+    ],
+    [
+      `rarityStyles.${card.Rarity}.textColors`,
+      Object.keys(textColors).length
+        ? {
+            layout: Object.fromEntries(
+              Object.entries(textColors).map(([key, color]) => [key, { color }])
+            ),
+          }
+        : undefined,
+    ],
+    [
+      `layoutOverrides.rarities.${card.Rarity}`,
+      overrides.rarities?.[card.Rarity],
+    ],
+    [`layoutOverrides.cards.${card.Card}`, overrides.cards?.[card.Card]],
+  ];
+  return matches.filter((match): match is [string, LayoutOverride] =>
+    Boolean(match[1])
+  );
+}
+
+export function resolveLayout(
+  layout: CardLayout,
+  cardArt: Box,
+  overrides: Array<[string, LayoutOverride]>
+): EffectiveLayout {
+  const effective: EffectiveLayout = { layout, cardArt, applied: [] };
+  for (const [label, override] of overrides) {
+    effective.layout = deepMerge(effective.layout, override.layout);
+    effective.cardArt = deepMerge(effective.cardArt, {
+      x: override.cardArtX,
+      y: override.cardArtY,
+      width: override.cardArtWidth,
+      height: override.cardArtHeight,
+    });
+    effective.applied.push(label);
+  }
+  return effective;
+}
@@ -0,0 +1,85 @@
+/**
+ * Line break opportunities, following the parts of the Unicode line breaking
+ * algorithm (UAX #14) that matter for card text:
+ * - a newline forces a break
+ * - lines may break after spaces, after a hyphen between letters and after
+ *   a slash (URLs)
+ * - CJK text may break between any two characters, except before closing
+ *   punctuation and small kana, or after opening brackets (kinsoku shori)
+ */
+export type BreakKind = "mandatory" | "allowed";
+
+// Stands in for inline icons, which stay attached to the text they touch
+export const OBJECT_REPLACEMENT = "\uFFFC";
+
+const CJK =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\u3000-\u303F\uFF01-\uFF60\uFFE0-\uFFE6]/u;
+
+// Characters that must not start a line
+const NO_BREAK_BEFORE = new Set(
+  Array.from(
+    "、。，．・：；？！゛゜ヽヾゝゞ々〻ー）］｝〕〉》」』】〙〗〟’”｠»" +
+      "ぁぃぅぇぉっゃゅょゎゕゖァィゥェォッャュョヮヵヶㇰㇱㇲㇳㇴㇵㇶㇷㇸㇹㇺㇻㇼㇽㇾㇿ" +
+      ")]},.;:!?%…‥"
+  )
+);
+
+// Characters that must not end a line
+const NO_BREAK_AFTER = new Set(Array.from("（［｛〔〈《「『【〘〖〝‘“｟«([{$"));
+
+const HYPHENS = new Set(["-", "‐"]);
+const LETTER = /\p{L}/u;
+const LATIN_WORD = /^[\p{Script=Latin}'’]+$/u;
+
+function isSpace(char: string): boolean {
+  return char === " " || char === "\t";
+}
+
+/**
+ * Returns the offsets (in UTF-16 code units) before which `text` may or must
+ * break. Offset 0 is never included.
+ */
+export function findBreaks(text: string): Map<number, BreakKind> {
+  const breaks = new Map<number, BreakKind>();
+  const chars = Array.from(text);
+
+  let offset = 0;
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const prev = chars[i - 1];
+    const beforePrev = chars[i - 2];
+
+    if (i > 0) {
+      if (prev === "\n") {
+        breaks.set(offset, "mandatory");
+      } else if (isSpace(char) || char === "\n") {
+        // Spaces stay with the text before them
+      } else if (isSpace(prev)) {
+        breaks.set(offset, "allowed");
+      } else if (NO_BREAK_BEFORE.has(char) || NO_BREAK_AFTER.has(prev)) {
+        // Kinsoku: keep punctuation with its neighbour
+      } else if (
+        char !== OBJECT_REPLACEMENT &&
+        prev !== OBJECT_REPLACEMENT &&
+        (CJK.test(char) || CJK.test(prev))
+      ) {
+        breaks.set(offset, "allowed");
+      } else if (
+        HYPHENS.has(prev) &&
+        LETTER.test(beforePrev || "") &&
+        LETTER.test(char)
+      ) {
+        breaks.set(offset, "allowed");
+      } else if (prev === "/" && LETTER.test(char)) {
+        breaks.set(offset, "allowed");
+      }
+    }
+    offset += char.length;
+  }
+  return breaks;
+}
+
+/** Whether an overlong word should get a hyphen where it is split. */
+export function isHyphenatable(word: string): boolean {
+  return LATIN_WORD.test(word);
+}
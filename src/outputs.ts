@@ -0,0 +1,77 @@
+import sharp from "sharp";
+
+export const OUTPUT_FORMATS = ["webp", "png", "jpeg", "avif"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export const ATLAS_FORMATS = ["png", "webp"] as const;
+
+export type AtlasFormat = (typeof ATLAS_FORMATS)[number];
+
+// Card backs are written next to the cards, as `back` or `back-<element>`
+export const CARD_BACK_NAME = "back";
+
+/**
+ * One image written for every card, e.g. a small WebP thumbnail, a web-sized
+ * AVIF and a full-size PNG for print. Each card is rendered once and every
+ * target is encoded from that render.
+ */
+export interface OutputTarget {
+  // Used in logs, and as the subfolder unless `dir` is set
+  name: string;
+  format: OutputFormat;
+  // Subfolder of outputDir; "" writes into outputDir itself
+  dir?: string;
+  // Resize to this width and/or height; with both, the card fits within them
+  width?: number;
+  height?: number;
+  // 1-100, defaults to the config's webpQuality
+  quality?: number;
+  // Lossless WebP or AVIF (quality is then ignored)
+  lossless?: boolean;
+}
+
+/** An encoded output file. */
+export interface EncodedOutput {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+export function getOutputExtension(format: OutputFormat): string {
+  return format === "jpeg" ? "jpg" : format;
+}
+
+export function getTargetDir(target: OutputTarget): string {
+  return target.dir ?? target.name;
+}
+
+export async function encodeOutput(
+  png: Buffer,
+  target: OutputTarget,
+  defaultQuality: number
+): Promise<EncodedOutput> {
+  let image = sharp(png);
+  if (target.width || target.height) {
+    image = image.resize(target.width, target.height, { fit: "inside" });
+  }
+
+  const quality = target.quality ?? defaultQuality;
+  const lossless = target.lossless ?? false;
+  switch (target.format) {
+    case "png":
+      image = image.png();
+      break;
+    case "jpeg":
+      image = image.jpeg({ quality });
+      break;
+    case "avif":
+      image = image.avif({ quality, lossless });
+      break;
+    default:
+      image = image.webp({ quality, lossless });
+  }
+
+  const { data, info } = await image.toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
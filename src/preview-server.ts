@@ -0,0 +1,262 @@
+import * as http from "http";
+import * as path from "path";
+import chokidar, { FSWatcher } from "chokidar";
+import CardGenerator, { CardData, GeneratorConfig } from "./card-generator";
+
+export const DEFAULT_PREVIEW_HOST = "127.0.0.1";
+
+export interface PreviewServerOptions {
+  port: number;
+  /** Interface to listen on; only this machine by default. */
+  host?: string;
+  /** Config file to watch alongside the generator's own inputs. */
+  configPath: string;
+  /** Loads (or reloads) the generator config, including CLI overrides. */
+  loadConfig: () => Promise<GeneratorConfig>;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Serves cards rendered on request straight from `CardGenerator.generateCard`
+ * plus a gallery page that reloads itself (via server-sent events) whenever
+ * the CSV, templates, fonts or config change. Everything is local; the page
+ * pulls in no external resources.
+ */
+export class PreviewServer {
+  private generator?: CardGenerator;
+  private server?: http.Server;
+  private watcher?: FSWatcher;
+  private watchedPaths = new Set<string>();
+  private clients = new Set<http.ServerResponse>();
+  private version = Date.now();
+  private reloading: Promise<void> = Promise.resolve();
+
+  constructor(private options: PreviewServerOptions) {}
+
+  public async start(): Promise<void> {
+    await this.reload();
+
+    this.watchedPaths = new Set(this.getWatchedPaths());
+    this.watcher = chokidar.watch([...this.watchedPaths], {
+      ignoreInitial: true,
+      awaitWriteFinish: { stabilityThreshold: 200, pollInterval: 50 },
+    });
+    this.watcher.on("all", (event, filePath) => {
+      console.log(`🔁 ${event}: ${path.relative(process.cwd(), filePath)}`);
+      this.reloading = this.reloading.then(() => this.reload());
+    });
+
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        console.error(`❌ ${req.url}: ${errorMessage}`);
+        if (!res.headersSent) {
+          res.writeHead(500, { "Content-Type": "text/plain; charset=utf-8" });
+        }
+        res.end(errorMessage);
+      });
+    });
+
+    const host = this.options.host || DEFAULT_PREVIEW_HOST;
+    try {
+      await new Promise<void>((resolve, reject) => {
+        this.server!.once("error", reject);
+        this.server!.listen(this.options.port, host, () => {
+          this.server!.off("error", reject);
+          resolve();
+        });
+      });
+    } catch (error) {
+      // Nothing is served, so don't keep the process alive watching files
+      await this.watcher.close();
+      this.server = undefined;
+      if ((error as NodeJS.ErrnoException).code === "EADDRINUSE") {
+        throw new Error(
+          `Port ${this.options.port} is already in use; pick another with --port`
+        );
+      }
+      throw error;
+    }
+    const displayHost = host === DEFAULT_PREVIEW_HOST ? "localhost" : host;
+    console.log(
+      `🌐 Preview server: http://${displayHost}:${this.options.port}/`
+    );
+  }
+
+  public async close(): Promise<void> {
+    for (const client of this.clients) {
+      client.end();
+    }
+    await this.watcher?.close();
+    await new Promise<void>((resolve) =>
+      this.server ? this.server.close(() => resolve()) : resolve()
+    );
+  }
+
+  private getWatchedPaths(): string[] {
+    const paths = [this.options.configPath];
+    if (this.generator) {
+      const { csvPath, templatesPath, fontPaths, iconPaths, cardImagePaths } =
+        this.generator.getInputPaths();
+      paths.push(
+        csvPath,
+        templatesPath,
+        ...fontPaths,
+        ...iconPaths,
+        ...cardImagePaths
+      );
+    }
+    return paths.map((p) => path.resolve(p));
+  }
+
+  /** Follows the inputs of a reloaded config, e.g. a CSV that was renamed. */
+  private updateWatchedPaths(): void {
+    const next = new Set(this.getWatchedPaths());
+    const removed = [...this.watchedPaths].filter((p) => !next.has(p));
+    const added = [...next].filter((p) => !this.watchedPaths.has(p));
+    if (removed.length) this.watcher?.unwatch(removed);
+    if (added.length) this.watcher?.add(added);
+    this.watchedPaths = next;
+  }
+
+  private async reload(): Promise<void> {
+    try {
+      if (this.generator) {
+        await this.generator.clearAllCaches();
+      }
+      const generator = new CardGenerator(await this.options.loadConfig());
+      await generator.loadFonts();
+      await generator.loadCSV();
+      this.generator = generator;
+      this.updateWatchedPaths();
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      console.error(`❌ Reload failed: ${errorMessage}`);
+    }
+
+    this.version = Date.now();
+    for (const client of this.clients) {
+      client.write(`data: ${this.version}\n\n`);
+    }
+  }
+
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url || "/", "http://localhost");
+
+    if (url.pathname === "/") {
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(this.renderGallery(url.searchParams.get("debug") === "1"));
+      return;
+    }
+
+    if (url.pathname === "/events") {
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      res.write(`data: ${this.version}\n\n`);
+      this.clients.add(res);
+      req.on("close", () => this.clients.delete(res));
+      return;
+    }
+
+    const match = url.pathname.match(/^\/card\/([^/]+)\.webp$/);
+    if (match) {
+      const id = decodeURIComponent(match[1]);
+      const card = this.getCards().find((candidate) => candidate.Card === id);
+      if (!card) {
+        res.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" });
+        res.end(`No card with number "${id}"`);
+        return;
+      }
+
+      const generator = this.generator!;
+      const canvas = await generator.generateCard(
+        card,
+        url.searchParams.get("debug") === "1"
+      );
+      const image = await generator.encodeWebP(canvas);
+      res.writeHead(200, {
+        "Content-Type": "image/webp",
+        "Cache-Control": "no-store",
+      });
+      res.end(image);
+      return;
+    }
+
+    res.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" });
+    res.end("Not found");
+  }
+
+  private getCards(): CardData[] {
+    return this.generator ? this.generator.getCards() : [];
+  }
+
+  private renderGallery(debugMode: boolean): string {
+    const query = `${debugMode ? "debug=1&" : ""}v=${this.version}`;
+    const tiles = this.getCards()
+      .map(
+        (card) => `
+      <figure>
+        <a href="/card/${encodeURIComponent(card.Card)}.webp?${query}">
+          <img loading="lazy" src="/card/${encodeURIComponent(
+            card.Card
+          )}.webp?${query}" alt="${escapeHtml(card.Name)}">
+        </a>
+        <figcaption>#${escapeHtml(card.Card)} ${escapeHtml(
+          card.Name
+        )} <small>${escapeHtml(card.Element)}</small></figcaption>
+      </figure>`
+      )
+      .join("");
+
+    return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Card Preview</title>
+  <style>
+    body { font-family: sans-serif; background: #222; color: #eee; margin: 24px; }
+    header { display: flex; gap: 16px; align-items: baseline; }
+    a { color: #9cf; }
+    main { display: grid; grid-template-columns: repeat(auto-fill, minmax(220px, 1fr)); gap: 16px; }
+    figure { margin: 0; }
+    img { width: 100%; background: #333; display: block; }
+    figcaption { font-size: 13px; padding-top: 4px; }
+    small { color: #999; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>Cards (${this.getCards().length})</h1>
+    <a href="${debugMode ? "/" : "/?debug=1"}">${
+      debugMode ? "Hide" : "Show"
+    } debug boxes</a>
+  </header>
+  <main>${tiles}
+  </main>
+  <script>
+    var version = "${this.version}";
+    new EventSource("/events").onmessage = function (event) {
+      if (event.data !== version) {
+        location.reload();
+      }
+    };
+  </script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,435 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import PDFDocument from "pdfkit";
+import sharp from "sharp";
+import type { Box } from "./card-generator";
+
+/** Sheet sizes in millimetres, portrait. */
+export const SHEET_SIZES = {
+  A4: { width: 210, height: 297 },
+  A3: { width: 297, height: 420 },
+  Letter: { width: 215.9, height: 279.4 },
+  Tabloid: { width: 279.4, height: 431.8 },
+};
+
+export type SheetSize = keyof typeof SHEET_SIZES;
+
+/**
+ * How the bleed is filled: `mirror` reflects the card's outer edge, `copy`
+ * repeats its outermost pixels.
+ */
+export const BLEED_MODES = ["mirror", "copy"] as const;
+
+export type BleedMode = (typeof BLEED_MODES)[number];
+
+// The CMYK profile in the repo's profiles/ folder, used unless another is set
+export const DEFAULT_CMYK_PROFILE = path.join(
+  __dirname,
+  "..",
+  "profiles",
+  "chemical-proof.icc"
+);
+
+// The generic CMYK profile that comes with libvips, named instead of a file
+export const BUILTIN_CMYK_PROFILE = "cmyk";
+
+// Crop marks start this far outside the bleed and are this long, in mm
+const CROP_MARK_OFFSET = 1;
+const CROP_MARK_LENGTH = 5;
+// Hairline crop marks, in points
+const CROP_MARK_WIDTH = 0.25;
+
+const POINTS_PER_MM = 72 / 25.4;
+
+/** Cards imposed N-up on the pages of a PDF. */
+export interface SheetConfig {
+  size?: SheetSize;
+  landscape?: boolean;
+  // Space around the cards, in mm; crop marks are drawn in it
+  margin?: number;
+  // Space between neighbouring cards' bleed, in mm
+  gap?: number;
+  // Cards per row and column, as many as fit by default
+  columns?: number;
+  rows?: number;
+}
+
+/**
+ * Print export settings. Lengths are in millimetres at the printed size,
+ * which is the card's pixel size at `dpi`.
+ */
+export interface PrintConfig {
+  dpi?: number;
+  // Added around the trim edge by extending the card's own edges
+  bleed?: number;
+  bleedMode?: BleedMode;
+  // How far inside the trim edge every text box must stay
+  safeZone?: number;
+  cropMarks?: boolean;
+  // Subfolder of outputDir for the print files
+  dir?: string;
+  sheet?: SheetConfig;
+  // Converts to CMYK with `iccProfile`; on when `iccProfile` is set
+  cmyk?: boolean;
+  // The CMYK ICC profile: a file (profiles/chemical-proof.icc by default), or
+  // "cmyk" for the generic profile bundled with libvips
+  iccProfile?: string;
+}
+
+/** A PrintConfig with its defaults filled in, lengths in card pixels. */
+export interface PrintSettings {
+  dpi: number;
+  bleed: number;
+  bleedMode: BleedMode;
+  safeZone: number;
+  cropMarks: boolean;
+  dir: string;
+  sheet: Required<Omit<SheetConfig, "columns" | "rows">> &
+    Pick<SheetConfig, "columns" | "rows">;
+  // Set when converting to CMYK
+  iccProfile?: string;
+}
+
+export class SafeZoneError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(
+      `${
+        problems.length
+      } text box(es) reach into the print safe zone; move them or pass --skip-validation:\n${problems
+        .map((problem) => `  - ${problem}`)
+        .join("\n")}`
+    );
+    this.name = "SafeZoneError";
+  }
+}
+
+export function mmToPixels(mm: number, dpi: number): number {
+  return Math.round((mm / 25.4) * dpi);
+}
+
+export function resolvePrintSettings(config: PrintConfig = {}): PrintSettings {
+  const dpi = config.dpi || 300;
+  return {
+    dpi,
+    bleed: mmToPixels(config.bleed ?? 3, dpi),
+    bleedMode: config.bleedMode || "mirror",
+    safeZone: mmToPixels(config.safeZone ?? 3, dpi),
+    cropMarks: config.cropMarks ?? true,
+    dir: config.dir ?? "print",
+    sheet: {
+      size: "A4",
+      landscape: false,
+      margin: 10,
+      gap: 0,
+      ...config.sheet,
+    },
+    iccProfile:
+      config.cmyk ?? config.iccProfile !== undefined
+        ? config.iccProfile || DEFAULT_CMYK_PROFILE
+        : undefined,
+  };
+}
+
+/** Describes how `box` reaches into the safe zone, or undefined if it doesn't. */
+export function checkSafeZone(
+  box: Box,
+  cardWidth: number,
+  cardHeight: number,
+  safeZone: number
+): string | undefined {
+  const { x, y, width, height } = box;
+  const margins = {
+    left: x,
+    top: y,
+    right: cardWidth - (x + width),
+    bottom: cardHeight - (y + height),
+  };
+  const unsafe = Object.entries(margins)
+    .filter(([, margin]) => margin < safeZone)
+    .map(([side, margin]) => `${side} ${Math.round(margin)}px`);
+  return unsafe.length
+    ? `box (x=${x}, y=${y}, ${width}x${height}) is too close to the trim edge (${unsafe.join(
+        ", "
+      )}, safe zone ${safeZone}px)`
+    : undefined;
+}
+
+/** Extends a rendered card by the bleed on every side, flattened to RGB. */
+async function addBleed(png: Buffer, settings: PrintSettings): Promise<Buffer> {
+  const { bleed } = settings;
+  return sharp(png)
+    .flatten({ background: "#ffffff" })
+    .extend({
+      top: bleed,
+      bottom: bleed,
+      left: bleed,
+      right: bleed,
+      extendWith: settings.bleedMode === "copy" ? "copy" : "mirror",
+    })
+    .png()
+    .toBuffer();
+}
+
+function applyIccProfile(
+  image: sharp.Sharp,
+  settings: PrintSettings,
+  attach = true
+): sharp.Sharp {
+  return settings.iccProfile
+    ? image
+        .toColourspace("cmyk")
+        .withIccProfile(settings.iccProfile, { attach })
+    : image;
+}
+
+/** Crop marks at the trim lines of one card, as an SVG overlay. */
+function cropMarksSvg(
+  width: number,
+  height: number,
+  trim: Box,
+  distance: number,
+  length: number,
+  strokeWidth: number
+): Buffer {
+  const lines: string[] = [];
+  const line = (x1: number, y1: number, x2: number, y2: number) =>
+    lines.push(`<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}"/>`);
+
+  for (const x of [trim.x, trim.x + trim.width]) {
+    line(x, trim.y - distance, x, trim.y - distance - length);
+    line(
+      x,
+      trim.y + trim.height + distance,
+      x,
+      trim.y + trim.height + distance + length
+    );
+  }
+  for (const y of [trim.y, trim.y + trim.height]) {
+    line(trim.x - distance, y, trim.x - distance - length, y);
+    line(
+      trim.x + trim.width + distance,
+      y,
+      trim.x + trim.width + distance + length,
+      y
+    );
+  }
+
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<g stroke="#000" stroke-width="${strokeWidth}">${lines.join("")}</g>` +
+      `</svg>`
+  );
+}
+
+/**
+ * A print file for one card: the card with its bleed, crop marks in a white
+ * border around it and the DPI recorded in the file. CMYK files are TIFFs,
+ * since PNG can't hold CMYK.
+ */
+export async function encodePrintFile(
+  png: Buffer,
+  settings: PrintSettings
+): Promise<{ data: Buffer; extension: string }> {
+  const { dpi, bleed } = settings;
+  let image = sharp(await addBleed(png, settings));
+
+  if (settings.cropMarks) {
+    const { width = 0, height = 0 } = await image.metadata();
+    const distance = mmToPixels(CROP_MARK_OFFSET, dpi);
+    const length = mmToPixels(CROP_MARK_LENGTH, dpi);
+    const border = distance + length;
+    const trim: Box = {
+      x: border + bleed,
+      y: border + bleed,
+      width: width - 2 * bleed,
+      height: height - 2 * bleed,
+    };
+    const marked = await image
+      .extend({
+        top: border,
+        bottom: border,
+        left: border,
+        right: border,
+        background: "#ffffff",
+      })
+      .composite([
+        {
+          input: cropMarksSvg(
+            width + 2 * border,
+            height + 2 * border,
+            trim,
+            bleed + distance,
+            length,
+            Math.max(1, (CROP_MARK_WIDTH / 72) * dpi)
+          ),
+        },
+      ])
+      .png()
+      .toBuffer();
+    image = sharp(marked).removeAlpha();
+  }
+
+  image = applyIccProfile(image.withMetadata({ density: dpi }), settings);
+  return settings.iccProfile
+    ? {
+        data: await image.tiff({ compression: "lzw" }).toBuffer(),
+        extension: "tif",
+      }
+    : { data: await image.png().toBuffer(), extension: "png" };
+}
+
+/**
+ * Imposes cards on the pages of a PDF, as many per page as fit the sheet (or
+ * its `columns` x `rows`), with crop marks in the margin at every trim line.
+ */
+export class SheetWriter {
+  private doc: PDFKit.PDFDocument;
+  private done: Promise<void>;
+  private cells: Box[];
+  private trimWidth: number;
+  private trimHeight: number;
+  private bleed: number;
+  private count = 0;
+
+  constructor(
+    outputPath: string,
+    cardWidth: number,
+    cardHeight: number,
+    private settings: PrintSettings
+  ) {
+    const { sheet, dpi } = settings;
+    const size = SHEET_SIZES[sheet.size];
+    const pageWidth =
+      (sheet.landscape ? size.height : size.width) * POINTS_PER_MM;
+    const pageHeight =
+      (sheet.landscape ? size.width : size.height) * POINTS_PER_MM;
+    const toPoints = (pixels: number) => (pixels / dpi) * 72;
+
+    this.trimWidth = toPoints(cardWidth);
+    this.trimHeight = toPoints(cardHeight);
+    this.bleed = toPoints(settings.bleed);
+    const cellWidth = this.trimWidth + 2 * this.bleed;
+    const cellHeight = this.trimHeight + 2 * this.bleed;
+    const margin = sheet.margin * POINTS_PER_MM;
+    const gap = sheet.gap * POINTS_PER_MM;
+
+    const fit = (space: number, cell: number) =>
+      Math.floor((space - 2 * margin + gap) / (cell + gap));
+    const columns = sheet.columns ?? fit(pageWidth, cellWidth);
+    const rows = sheet.rows ?? fit(pageHeight, cellHeight);
+    const gridWidth = columns * cellWidth + (columns - 1) * gap;
+    const gridHeight = rows * cellHeight + (rows - 1) * gap;
+    if (
+      columns < 1 ||
+      rows < 1 ||
+      gridWidth > pageWidth - 2 * margin + 0.01 ||
+      gridHeight > pageHeight - 2 * margin + 0.01
+    ) {
+      throw new Error(
+        `${columns}x${rows} cards of ${(cellWidth / POINTS_PER_MM).toFixed(
+          1
+        )}x${(cellHeight / POINTS_PER_MM).toFixed(1)}mm don't fit on a ${
+          sheet.size
+        } sheet with ${sheet.margin}mm margins`
+      );
+    }
+
+    const left = (pageWidth - gridWidth) / 2;
+    const top = (pageHeight - gridHeight) / 2;
+    this.cells = [];
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        this.cells.push({
+          x: left + column * (cellWidth + gap),
+          y: top + row * (cellHeight + gap),
+          width: cellWidth,
+          height: cellHeight,
+        });
+      }
+    }
+
+    this.doc = new PDFDocument({
+      size: [pageWidth, pageHeight],
+      margin: 0,
+      autoFirstPage: false,
+      info: { Title: "Print sheets", Creator: "card-generator" },
+    });
+    const stream = fs.createWriteStream(outputPath);
+    this.done = new Promise((resolve, reject) => {
+      stream.on("finish", resolve);
+      stream.on("error", reject);
+    });
+    this.doc.pipe(stream);
+  }
+
+  public get cardsPerPage(): number {
+    return this.cells.length;
+  }
+
+  public get pageCount(): number {
+    return Math.ceil(this.count / this.cells.length);
+  }
+
+  /** Places the next card, starting a new page when the current one is full. */
+  public async add(png: Buffer): Promise<void> {
+    const slot = this.count % this.cells.length;
+    if (slot === 0) {
+      this.doc.addPage();
+      if (this.settings.cropMarks) {
+        this.drawCropMarks();
+      }
+    }
+
+    // JPEG is the only way to put CMYK images in a PDF with pdfkit, which
+    // doesn't read their ICC profile, so it isn't attached
+    const withBleed = sharp(await addBleed(png, this.settings));
+    const image = this.settings.iccProfile
+      ? await applyIccProfile(withBleed, this.settings, false)
+          .jpeg({ quality: 95 })
+          .toBuffer()
+      : await withBleed.png().toBuffer();
+
+    const { x, y, width, height } = this.cells[slot];
+    this.doc.image(image, x, y, { width, height });
+    this.count++;
+  }
+
+  public async finish(): Promise<void> {
+    this.doc.end();
+    await this.done;
+  }
+
+  // Marks every trim line in the margin, outside the outermost cards
+  private drawCropMarks(): void {
+    const doc = this.doc;
+    const distance = this.bleed + CROP_MARK_OFFSET * POINTS_PER_MM;
+    const length = CROP_MARK_LENGTH * POINTS_PER_MM;
+    const trims = this.cells.map((cell) => ({
+      left: cell.x + this.bleed,
+      right: cell.x + this.bleed + this.trimWidth,
+      top: cell.y + this.bleed,
+      bottom: cell.y + this.bleed + this.trimHeight,
+    }));
+    const top = Math.min(...trims.map((trim) => trim.top));
+    const bottom = Math.max(...trims.map((trim) => trim.bottom));
+    const left = Math.min(...trims.map((trim) => trim.left));
+    const right = Math.max(...trims.map((trim) => trim.right));
+
+    doc.save().lineWidth(CROP_MARK_WIDTH).strokeColor("black");
+    for (const x of new Set(trims.flatMap((trim) => [trim.left, trim.right]))) {
+      doc
+        .moveTo(x, top - distance)
+        .lineTo(x, top - distance - length)
+        .moveTo(x, bottom + distance)
+        .lineTo(x, bottom + distance + length);
+    }
+    for (const y of new Set(trims.flatMap((trim) => [trim.top, trim.bottom]))) {
+      doc
+        .moveTo(left - distance, y)
+        .lineTo(left - distance - length, y)
+        .moveTo(right + distance, y)
+        .lineTo(right + distance + length, y);
+    }
+    doc.stroke().restore();
+  }
+}
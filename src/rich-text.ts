@@ -0,0 +1,383 @@
+import { findBreaks, isHyphenatable, OBJECT_REPLACEMENT } from "./line-break";
+import { ELLIPSIS, truncateWithEllipsis } from "./text-fit";
+
+/**
+ * Lightweight inline markup for card text:
+ * - `**bold**` and `*italic*`
+ * - `{color:#f00}red text{/color}`
+ * - `{icon:fire}` draws the image registered under `icons.fire`
+ * A backslash escapes `*`, `{`, `}` and itself. Markers without a partner
+ * (e.g. a lone `*`) are drawn as plain text.
+ */
+export interface TextStyle {
+  bold: boolean;
+  italic: boolean;
+  // Overrides the layout's color
+  color?: string;
+}
+
+export type TextRun =
+  | { kind: "text"; text: string; style: TextStyle }
+  | {
+      kind: "icon";
+      name: string;
+      style: TextStyle;
+      // Icon height and the space after it, as multiples of the font size
+      scale?: number;
+      gap?: number;
+    };
+
+/** A run with its measured width, as placed on a line. */
+export type Piece = TextRun & { width: number };
+
+export interface RichLine {
+  pieces: Piece[];
+  width: number;
+}
+
+export interface MarkupOptions {
+  // Parse the markup above; otherwise the text is a single plain run
+  markup?: boolean;
+  // Bold a leading "Skill Name:" label
+  boldSkillName?: boolean;
+}
+
+const PLAIN: TextStyle = { bold: false, italic: false };
+const SKILL_NAME = /^([^:\n*{}]{1,40}:)/;
+const TOKEN =
+  /\\([*{}\\])|\*\*|\*|\{(color|icon):([^}]*)\}|\{\/color\}|[^\\*{]+|[\\{]/g;
+
+function sameStyle(a: TextStyle, b: TextStyle): boolean {
+  return a.bold === b.bold && a.italic === b.italic && a.color === b.color;
+}
+
+function pushText(runs: TextRun[], text: string, style: TextStyle): void {
+  const last = runs[runs.length - 1];
+  if (last?.kind === "text" && sameStyle(last.style, style)) {
+    last.text += text;
+  } else if (text) {
+    runs.push({ kind: "text", text, style });
+  }
+}
+
+export function parseMarkup(source: string, options: MarkupOptions): TextRun[] {
+  const text = source.replace(/\r\n?/g, "\n");
+  let runs: TextRun[] = [];
+
+  if (!options.markup) {
+    pushText(runs, text, PLAIN);
+  } else {
+    const tokens = text.match(TOKEN) || [];
+    // A toggle only counts when a later one can close it
+    const remaining = {
+      "**": tokens.filter((t) => t === "**").length,
+      "*": tokens.filter((t) => t === "*").length,
+    };
+    const colors: string[] = [];
+    let bold = false;
+    let italic = false;
+
+    for (const token of tokens) {
+      const style: TextStyle = {
+        bold,
+        italic,
+        color: colors[colors.length - 1],
+      };
+      const directive = token.match(/^\{(color|icon):([^}]*)\}$/);
+
+      if (token === "**" || token === "*") {
+        const active = token === "**" ? bold : italic;
+        remaining[token]--;
+        if (!active && remaining[token] === 0) {
+          pushText(runs, token, style);
+        } else if (token === "**") {
+          bold = !bold;
+        } else {
+          italic = !italic;
+        }
+      } else if (directive?.[1] === "color") {
+        colors.push(directive[2].trim());
+      } else if (directive?.[1] === "icon") {
+        runs.push({ kind: "icon", name: directive[2].trim(), style });
+      } else if (token === "{/color}" && colors.length) {
+        colors.pop();
+      } else if (token.startsWith("\\") && token.length === 2) {
+        pushText(runs, token[1], style);
+      } else {
+        pushText(runs, token, style);
+      }
+    }
+  }
+
+  const first = runs[0];
+  const label = first?.kind === "text" && first.text.match(SKILL_NAME);
+  if (options.boldSkillName && first?.kind === "text" && label) {
+    runs = [
+      { ...first, text: label[1], style: { ...first.style, bold: true } },
+      { ...first, text: first.text.slice(label[1].length) },
+      ...runs.slice(1),
+    ].filter((run) => run.kind !== "text" || run.text);
+  }
+  return runs;
+}
+
+/** The text of `runs`, with icons written as `{icon:name}`. */
+export function describeRuns(runs: TextRun[]): string {
+  return runs
+    .map((run) => (run.kind === "text" ? run.text : `{icon:${run.name}}`))
+    .join("");
+}
+
+export function iconNames(runs: TextRun[]): string[] {
+  return runs.flatMap((run) => (run.kind === "icon" ? [run.name] : []));
+}
+
+interface Word {
+  // Whitespace before the word, dropped at the start of a line
+  space?: Piece;
+  // The word follows a newline
+  forced: boolean;
+  pieces: Piece[];
+}
+
+/**
+ * Splits styled runs into unbreakable words at the break opportunities found
+ * by `findBreaks`. A word may span several runs (e.g. `**Aura**'s`).
+ */
+function splitWords(
+  runs: TextRun[],
+  measure: (run: TextRun) => number
+): Word[] {
+  const plain = runs
+    .map((run) => (run.kind === "text" ? run.text : OBJECT_REPLACEMENT))
+    .join("");
+  const breaks = findBreaks(plain);
+
+  const words: Word[] = [];
+  let word: Word | undefined;
+  let space: Piece | undefined;
+  let forced = false;
+
+  const addPiece = (piece: Piece, offset: number) => {
+    if (!word || breaks.has(offset)) {
+      word = { space, forced, pieces: [] };
+      words.push(word);
+      space = undefined;
+      forced = false;
+    }
+    word.pieces.push(piece);
+  };
+
+  let offset = 0;
+  for (const run of runs) {
+    if (run.kind === "icon") {
+      addPiece({ ...run, width: measure(run) }, offset);
+      offset += OBJECT_REPLACEMENT.length;
+      continue;
+    }
+
+    const { text } = run;
+    let i = 0;
+    while (i < text.length) {
+      let j = i + 1;
+      if (text[i] === "\n") {
+        if (forced) {
+          // Consecutive newlines leave an empty line
+          words.push({ forced, pieces: [] });
+        }
+        word = undefined;
+        space = undefined;
+        forced = true;
+      } else if (/[ \t]/.test(text[i])) {
+        while (j < text.length && /[ \t]/.test(text[j])) j++;
+        const part = text.slice(i, j);
+        space = { ...run, text: part, width: measure({ ...run, text: part }) };
+        word = undefined;
+      } else {
+        while (
+          j < text.length &&
+          !breaks.has(offset + j) &&
+          !/[ \t\n]/.test(text[j])
+        ) {
+          j++;
+        }
+        const part = text.slice(i, j);
+        addPiece(
+          { ...run, text: part, width: measure({ ...run, text: part }) },
+          offset + i
+        );
+      }
+      i = j;
+    }
+    offset += text.length;
+  }
+  return words;
+}
+
+/**
+ * Splits a word wider than `maxWidth` into pieces that each fit on a line,
+ * hyphenating Latin words.
+ */
+function splitLongWord(
+  pieces: Piece[],
+  maxWidth: number,
+  measure: (run: TextRun) => number
+): Piece[][] {
+  const hyphen = isHyphenatable(
+    pieces.map((piece) => (piece.kind === "text" ? piece.text : "")).join("")
+  )
+    ? "-"
+    : "";
+  const chunks: Piece[][] = [];
+  let chunk: Piece[] = [];
+  let chunkWidth = 0;
+  const flush = () => {
+    chunks.push(chunk);
+    chunk = [];
+    chunkWidth = 0;
+  };
+
+  for (const piece of pieces) {
+    if (piece.kind === "icon") {
+      if (chunk.length && chunkWidth + piece.width > maxWidth) flush();
+      chunk.push(piece);
+      chunkWidth += piece.width;
+      continue;
+    }
+
+    let chars = Array.from(piece.text);
+    while (chars.length) {
+      const textFor = (count: number) =>
+        chars.slice(0, count).join("") + (count < chars.length ? hyphen : "");
+      const fits = (count: number) =>
+        chunkWidth + measure({ ...piece, text: textFor(count) }) <= maxWidth;
+
+      // Longest prefix that still fits
+      let low = 0;
+      let high = chars.length;
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (fits(mid)) low = mid;
+        else high = mid - 1;
+      }
+      if (low === 0) {
+        if (chunk.length) {
+          flush();
+          continue;
+        }
+        // Not even one character fits; draw it anyway
+        low = 1;
+      }
+
+      const text = textFor(low);
+      const width = measure({ ...piece, text });
+      chunk.push({ ...piece, text, width });
+      chunkWidth += width;
+      chars = chars.slice(low);
+      if (chars.length) flush();
+    }
+  }
+  if (chunk.length) flush();
+  return chunks;
+}
+
+/**
+ * Breaks styled runs into lines no wider than `maxWidth`, at newlines and at
+ * the break opportunities of `findBreaks`. Words that are wider than a whole
+ * line are split across lines.
+ */
+export function wrapRuns(
+  runs: TextRun[],
+  maxWidth: number,
+  measure: (run: TextRun) => number
+): RichLine[] {
+  const lines: RichLine[] = [];
+  let line: RichLine = { pieces: [], width: 0 };
+
+  for (const word of splitWords(runs, measure)) {
+    const wordWidth = word.pieces.reduce((sum, piece) => sum + piece.width, 0);
+    const chunks =
+      wordWidth > maxWidth
+        ? splitLongWord(word.pieces, maxWidth, measure)
+        : [word.pieces];
+
+    chunks.forEach((pieces, index) => {
+      const width = pieces.reduce((sum, piece) => sum + piece.width, 0);
+      const space = index === 0 ? word.space : undefined;
+      const spaceWidth = space?.width || 0;
+
+      if (index === 0 && word.forced) {
+        lines.push(line);
+        line = { pieces: [...pieces], width };
+      } else if (!line.pieces.length) {
+        line = { pieces: [...pieces], width };
+      } else if (line.width + spaceWidth + width < maxWidth) {
+        line.pieces.push(...(space ? [space] : []), ...pieces);
+        line.width += spaceWidth + width;
+      } else {
+        lines.push(line);
+        line = { pieces: [...pieces], width };
+      }
+    });
+  }
+  lines.push(line);
+  return lines.map(mergePieces);
+}
+
+/** Joins neighbouring text pieces of the same style so they draw as one. */
+function mergePieces(line: RichLine): RichLine {
+  const pieces: Piece[] = [];
+  for (const piece of line.pieces) {
+    const last = pieces[pieces.length - 1];
+    if (
+      piece.kind === "text" &&
+      last?.kind === "text" &&
+      sameStyle(last.style, piece.style)
+    ) {
+      pieces[pieces.length - 1] = {
+        ...last,
+        text: last.text + piece.text,
+        width: last.width + piece.width,
+      };
+    } else {
+      pieces.push(piece);
+    }
+  }
+  return { pieces, width: line.width };
+}
+
+/**
+ * Ends `line` with an ellipsis, dropping trailing pieces (and characters) so
+ * that it fits within `maxWidth`.
+ */
+export function ellipsizeLine(
+  line: RichLine,
+  maxWidth: number,
+  measure: (run: TextRun) => number
+): RichLine {
+  const pieces = [...line.pieces];
+  while (pieces.length) {
+    const last = pieces[pieces.length - 1];
+    const before = pieces
+      .slice(0, -1)
+      .reduce((sum, piece) => sum + piece.width, 0);
+
+    if (last.kind === "text") {
+      const text = truncateWithEllipsis(last.text, maxWidth - before, (t) =>
+        measure({ ...last, text: t })
+      );
+      const width = measure({ ...last, text });
+      if (before + width <= maxWidth || pieces.length === 1) {
+        pieces[pieces.length - 1] = { ...last, text, width };
+        return { pieces, width: before + width };
+      }
+    }
+    pieces.pop();
+  }
+
+  const ellipsis: TextRun = { kind: "text", text: ELLIPSIS, style: PLAIN };
+  return {
+    pieces: [{ ...ellipsis, width: measure(ellipsis) }],
+    width: measure(ellipsis),
+  };
+}
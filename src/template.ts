@@ -0,0 +1,55 @@
+import type { CardData } from "./card-generator";
+
+/**
+ * `{{Column}}` expressions that pull CSV values into config strings, e.g.
+ * `"ATK {{Attack}}"` or `"./symbols/{{Set}}.png"`. Column names are matched
+ * exactly; whitespace inside the braces is ignored.
+ */
+const EXPRESSION = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export type Row = Record<string, string | undefined>;
+
+/** A card's CSV row by column name, including columns beyond `CardData`. */
+export function toRow(card: CardData): Row {
+  return card as unknown as Row;
+}
+
+export interface RenderTemplateOptions {
+  // Applied to each value, e.g. to make it safe in a file name
+  transform?: (value: string) => string;
+  // Render as "" when any column is empty rather than only when all are,
+  // for templates such as URLs that are useless with a part missing
+  requireAll?: boolean;
+}
+
+/** The columns a template reads, in order of first use. */
+export function templateColumns(template: string): string[] {
+  return [
+    ...new Set(Array.from(template.matchAll(EXPRESSION), (match) => match[1])),
+  ];
+}
+
+/**
+ * Fills in `template` from `row`, passing each value through `transform` if
+ * given. A template that reads columns which are all empty renders as "", so
+ * `"ATK {{Attack}}"` disappears on rows without an Attack instead of drawing
+ * a dangling label. With `requireAll`, one empty column is enough.
+ */
+export function renderTemplate(
+  template: string,
+  row: Row,
+  options: RenderTemplateOptions = {}
+): string {
+  const { transform = (value: string) => value, requireAll = false } = options;
+  const columns = templateColumns(template);
+  const isEmpty = (column: string) => !row[column]?.trim();
+  if (
+    columns.length &&
+    (requireAll ? columns.some(isEmpty) : columns.every(isEmpty))
+  ) {
+    return "";
+  }
+  return template.replace(EXPRESSION, (_, column: string) =>
+    transform((row[column] ?? "").trim())
+  );
+}
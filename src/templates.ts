@@ -0,0 +1,176 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import type { CardData } from "./card-generator";
+import { toRow } from "./template";
+
+export const TEMPLATE_VARIANT_RULES = [
+  "first",
+  "parity",
+  "hash",
+  "rarity",
+] as const;
+
+export type TemplateVariantRule = (typeof TEMPLATE_VARIANT_RULES)[number];
+
+/**
+ * How a card picks between `<Element>_1.png`, `<Element>_2.png`, ...
+ *
+ * - `column`: CSV column holding the variant (e.g. "Variant"). Empty cells
+ *   fall through to `rule`.
+ * - `rule`: `first` always uses the lowest variant, `parity` alternates by
+ *   card number, `hash` spreads cards deterministically by `Address`, and
+ *   `rarity` looks the card's Rarity up in `rarityVariants`.
+ */
+export interface TemplateVariantConfig {
+  column?: string;
+  rule?: TemplateVariantRule;
+  rarityVariants?: Record<string, string>;
+}
+
+export interface ResolvedTemplate {
+  element: string;
+  variant: string;
+  path: string;
+}
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+const TEMPLATE_PATTERN = /^(.+?)(?:_([^_.]+))?\.png$/i;
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+type TemplateListing = Map<
+  string,
+  { element: string; variants: Map<string, string> }
+>;
+
+export class TemplateResolver {
+  // Read once and shared by every card, until clearCache()
+  private listing?: Promise<TemplateListing>;
+
+  constructor(
+    private templatesPath: string,
+    private variantConfig: TemplateVariantConfig = {}
+  ) {}
+
+  /**
+   * Lists template files grouped by lower-cased element. A plain
+   * `<Element>.png` is recorded as the variant "".
+   */
+  public listTemplates(): Promise<TemplateListing> {
+    this.listing ??= this.readTemplates();
+    return this.listing;
+  }
+
+  /** Forgets the listing, e.g. after a template file was added or removed. */
+  public clearCache(): void {
+    this.listing = undefined;
+  }
+
+  private async readTemplates(): Promise<TemplateListing> {
+    const templates: TemplateListing = new Map();
+
+    let files: string[] = [];
+    try {
+      files = await fs.readdir(this.templatesPath);
+    } catch (error) {
+      throw new TemplateError(
+        `Templates folder not found: ${this.templatesPath}`
+      );
+    }
+
+    for (const file of files.sort((a, b) =>
+      a.localeCompare(b, undefined, { numeric: true })
+    )) {
+      const match = file.match(TEMPLATE_PATTERN);
+      if (!match) continue;
+
+      const [, element, variant = ""] = match;
+      const key = element.toLowerCase();
+      if (!templates.has(key)) {
+        templates.set(key, { element, variants: new Map() });
+      }
+      templates
+        .get(key)!
+        .variants.set(variant, path.join(this.templatesPath, file));
+    }
+
+    return templates;
+  }
+
+  public async resolve(card: CardData): Promise<ResolvedTemplate> {
+    const templates = await this.listTemplates();
+    const entry = templates.get(card.Element.trim().toLowerCase());
+
+    if (!entry) {
+      const elements = [...templates.values()].map((t) => t.element);
+      throw new TemplateError(
+        `No template for element "${card.Element}" in ${
+          this.templatesPath
+        } (available elements: ${elements.join(", ") || "none"})`
+      );
+    }
+
+    const available = [...entry.variants.keys()];
+    const variant = this.selectVariant(card, available);
+    const templatePath = entry.variants.get(variant);
+
+    if (templatePath === undefined) {
+      throw new TemplateError(
+        `No "${variant}" variant of the ${
+          entry.element
+        } template (available: ${available
+          .map((v) => (v === "" ? `${entry.element}.png` : v))
+          .join(", ")})`
+      );
+    }
+
+    return { element: entry.element, variant, path: templatePath };
+  }
+
+  private selectVariant(card: CardData, available: string[]): string {
+    const { column, rule = "hash", rarityVariants = {} } = this.variantConfig;
+
+    const fromColumn = column ? toRow(card)[column]?.trim() : undefined;
+    if (fromColumn) {
+      return fromColumn;
+    }
+
+    switch (rule) {
+      case "first":
+        return available[0];
+      case "parity": {
+        const cardNumber = parseInt(card.Card, 10);
+        const index = Number.isNaN(cardNumber) ? 0 : (cardNumber + 1) % 2;
+        return available[Math.min(index, available.length - 1)];
+      }
+      case "rarity": {
+        const variant = rarityVariants[card.Rarity];
+        if (variant === undefined) {
+          throw new TemplateError(
+            `No template variant configured for rarity "${
+              card.Rarity
+            }" (configured: ${
+              Object.keys(rarityVariants).join(", ") || "none"
+            })`
+          );
+        }
+        return variant;
+      }
+      case "hash":
+        return available[fnv1a(card.Address || card.Card) % available.length];
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * What to do when wrapped text is taller (or wider) than its layout box:
+ * - `overflow` draws it anyway and only reports it (the default)
+ * - `shrink` lowers the font size, down to `minFontSize`, until it fits
+ * - `ellipsis` keeps the lines that fit and ends the last one with "…"
+ * - `error` fails the card
+ */
+export const TEXT_FIT_MODES = [
+  "overflow",
+  "shrink",
+  "ellipsis",
+  "error",
+] as const;
+
+export type TextFitMode = (typeof TEXT_FIT_MODES)[number];
+
+export const ELLIPSIS = "…";
+
+/** One text field that did not fit its box. */
+export interface TextOverflow {
+  card: string;
+  field: string;
+  fit: TextFitMode;
+  // Font size the text was (or would have been) drawn at
+  fontSize: number;
+  lines: number;
+  maxLines: number;
+  message: string;
+}
+
+export class TextOverflowError extends Error {
+  constructor(public readonly overflow: TextOverflow) {
+    super(`${overflow.field} text does not fit: ${overflow.message}`);
+    this.name = "TextOverflowError";
+  }
+}
+
+/**
+ * Shortens `text` until it plus an ellipsis is at most `maxWidth` wide,
+ * preferring to cut at a word boundary.
+ */
+export function truncateWithEllipsis(
+  text: string,
+  maxWidth: number,
+  measure: (text: string) => number
+): string {
+  let chars = Array.from(text.trimEnd());
+  while (chars.length && measure(chars.join("") + ELLIPSIS) > maxWidth) {
+    const lastSpace = chars.lastIndexOf(" ");
+    chars =
+      lastSpace > 0 &&
+      measure(chars.slice(0, lastSpace).join("") + ELLIPSIS) <= maxWidth
+        ? chars.slice(0, lastSpace)
+        : chars.slice(0, -1);
+    chars = Array.from(chars.join("").trimEnd());
+  }
+  return chars.join("") + ELLIPSIS;
+}
+
+export function formatOverflowReport(overflows: TextOverflow[]): string {
+  const lines = [`📐 ${overflows.length} text field(s) did not fit their box:`];
+  for (const overflow of overflows) {
+    lines.push(
+      `   ⚠️  card ${overflow.card}, ${overflow.field} (${overflow.fit}): ${overflow.message}`
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,307 @@
+import * as fs from "fs-extra";
+import csvParser from "csv-parser";
+import type { CardData } from "./card-generator";
+
+export const DEFAULT_RARITIES = [
+  "Common",
+  "Uncommon",
+  "Rare",
+  "Super",
+  "Ultra",
+  "Secret",
+];
+
+export const CSV_COLUMNS = [
+  "Card",
+  "Beetle",
+  "Name",
+  "Cost",
+  "Lore",
+  "Attack",
+  "Armor",
+  "Rarity",
+  "Element",
+  "Address",
+  "Skills",
+] as const;
+
+const REQUIRED_COLUMNS = [
+  "Card",
+  "Name",
+  "Cost",
+  "Attack",
+  "Armor",
+  "Rarity",
+  "Element",
+] as const;
+
+export interface ValidationConfig {
+  // Allowed Element values; defaults to the elements that have a template
+  elements?: string[];
+  rarities?: string[];
+}
+
+/** A CSV row with its fields parsed into proper types. */
+export interface ParsedCard {
+  row: number;
+  data: CardData;
+  number: number | null;
+  cost: number | null;
+  attack: number | null;
+  armor: number | null;
+  element: string | null;
+  rarity: string | null;
+}
+
+export type IssueSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  severity: IssueSeverity;
+  // 1-based row number as shown in a spreadsheet (the header is row 1)
+  row?: number;
+  card?: string;
+  column?: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  csvPath: string;
+  rowCount: number;
+  cards: ParsedCard[];
+  issues: ValidationIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+export class CsvValidationError extends Error {
+  constructor(public readonly report: ValidationReport) {
+    super(
+      `${report.csvPath} has ${report.errorCount} validation error(s); fix them or pass --skip-validation`
+    );
+    this.name = "CsvValidationError";
+  }
+}
+
+/**
+ * Extracts the star count from cost strings such as "7 ⭐", "3⭐️", "2 stars"
+ * or a bare "4". Returns null for anything else.
+ */
+export function parseCost(cost: string): number | null {
+  const match = cost.trim().match(/^(\d+)\s*(?:⭐️?|★|stars?)?$/iu);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+export function parseInteger(value: string | undefined): number | null {
+  const trimmed = (value || "").trim();
+  return /^-?\d+$/.test(trimmed) ? parseInt(trimmed, 10) : null;
+}
+
+function matchEnum(value: string, allowed: string[]): string | null {
+  const trimmed = value.trim().toLowerCase();
+  return allowed.find((option) => option.toLowerCase() === trimmed) ?? null;
+}
+
+async function readRawRows(csvPath: string): Promise<string[][]> {
+  return new Promise((resolve, reject) => {
+    const rows: string[][] = [];
+    fs.createReadStream(csvPath)
+      .on("error", reject)
+      .pipe(csvParser({ headers: false }))
+      .on("data", (data: Record<string, string>) =>
+        rows.push(Object.values(data))
+      )
+      .on("end", () => resolve(rows))
+      .on("error", reject);
+  });
+}
+
+/**
+ * Parses and checks every CSV row: column counts, numeric stats, cost star
+ * counts, Element/Rarity enums and duplicate card numbers. `templateColumns`
+ * are the columns the config's `{{Column}}` templates read, which the CSV
+ * must have.
+ */
+export async function validateCsv(
+  csvPath: string,
+  config: ValidationConfig & { elements: string[]; templateColumns?: string[] }
+): Promise<ValidationReport> {
+  const issues: ValidationIssue[] = [];
+  const cards: ParsedCard[] = [];
+  const rarities = config.rarities || DEFAULT_RARITIES;
+
+  const [header = [], ...rows] = await readRawRows(csvPath);
+  const columns = header.map((column) => column.trim());
+
+  for (const column of REQUIRED_COLUMNS) {
+    if (!columns.includes(column)) {
+      issues.push({
+        severity: "error",
+        row: 1,
+        column,
+        message: `missing required column "${column}"`,
+      });
+    }
+  }
+  const templateColumns = config.templateColumns || [];
+  for (const column of templateColumns) {
+    if (!columns.includes(column)) {
+      issues.push({
+        severity: "error",
+        row: 1,
+        column,
+        message: `the config reads column "{{${column}}}", which the CSV doesn't have`,
+      });
+    }
+  }
+  for (const column of columns) {
+    if (
+      !(CSV_COLUMNS as readonly string[]).includes(column) &&
+      !templateColumns.includes(column)
+    ) {
+      issues.push({
+        severity: "warning",
+        row: 1,
+        column,
+        message: `unknown column "${column}"`,
+      });
+    }
+  }
+
+  const seenNumbers = new Map<string, number>();
+
+  rows.forEach((fields, index) => {
+    const row = index + 2;
+    const data = Object.fromEntries(
+      columns.map((column, i) => [column, fields[i] ?? ""])
+    ) as unknown as CardData;
+    const card = data.Card?.trim() || undefined;
+    const issue = (
+      severity: IssueSeverity,
+      column: string | undefined,
+      message: string
+    ) => issues.push({ severity, row, card, column, message });
+
+    if (fields.length !== columns.length) {
+      issue(
+        "error",
+        undefined,
+        `has ${fields.length} fields, expected ${columns.length} (unquoted comma in a text column?)`
+      );
+    }
+
+    const number = parseInteger(data.Card);
+    if (!card) {
+      issue("error", "Card", "card number is empty");
+    } else {
+      if (number === null) {
+        issue(
+          "warning",
+          "Card",
+          `card number "${data.Card}" is not an integer`
+        );
+      }
+      const firstRow = seenNumbers.get(card);
+      if (firstRow !== undefined) {
+        issue(
+          "error",
+          "Card",
+          `duplicate card number ${card} (first used on row ${firstRow})`
+        );
+      } else {
+        seenNumbers.set(card, row);
+      }
+    }
+
+    if (!data.Name?.trim()) {
+      issue("error", "Name", "name is empty");
+    }
+
+    const cost = parseCost(data.Cost || "");
+    if (cost === null) {
+      issue("error", "Cost", `cannot read a star count from "${data.Cost}"`);
+    } else if (cost === 0) {
+      issue("warning", "Cost", "cost is 0, no stars will be drawn");
+    }
+
+    const attack = parseInteger(data.Attack);
+    if (attack === null) {
+      issue("error", "Attack", `"${data.Attack}" is not a number`);
+    }
+    const armor = parseInteger(data.Armor);
+    if (armor === null) {
+      issue("error", "Armor", `"${data.Armor}" is not a number`);
+    }
+
+    const element = matchEnum(data.Element || "", config.elements);
+    if (element === null) {
+      issue(
+        "error",
+        "Element",
+        `unknown element "${
+          data.Element
+        }" (expected one of: ${config.elements.join(", ")})`
+      );
+    }
+
+    const rarity = matchEnum(data.Rarity || "", rarities);
+    if (rarity === null) {
+      issue(
+        "error",
+        "Rarity",
+        `unknown rarity "${data.Rarity}" (expected one of: ${rarities.join(
+          ", "
+        )})`
+      );
+    }
+
+    if (!data.Address?.trim()) {
+      issue("warning", "Address", "address is empty, art may not be found");
+    }
+
+    cards.push({ row, data, number, cost, attack, armor, element, rarity });
+  });
+
+  const errorCount = issues.filter((i) => i.severity === "error").length;
+  return {
+    csvPath,
+    rowCount: rows.length,
+    cards,
+    issues,
+    errorCount,
+    warningCount: issues.length - errorCount,
+  };
+}
+
+export function formatValidationReport(report: ValidationReport): string {
+  const lines = [
+    `📋 Validation report for ${report.csvPath} (${report.rowCount} rows)`,
+  ];
+
+  for (const issue of report.issues) {
+    const icon = issue.severity === "error" ? "❌" : "⚠️ ";
+    const where = [
+      issue.row !== undefined ? `row ${issue.row}` : undefined,
+      issue.card ? `card ${issue.card}` : undefined,
+      issue.column,
+    ]
+      .filter(Boolean)
+      .join(", ");
+    lines.push(`   ${icon} [${where}] ${issue.message}`);
+  }
+
+  lines.push(
+    report.errorCount || report.warningCount
+      ? `   ${report.errorCount} error(s), ${report.warningCount} warning(s)`
+      : "   ✅ No issues found"
+  );
+  return lines.join("\n");
+}
+
+/** The report without the parsed rows, for machine-readable output. */
+export function toJsonReport(report: ValidationReport): object {
+  const { cards, ...rest } = report;
+  return {
+    ...rest,
+    cards: cards.map(({ data, ...parsed }) => ({ card: data.Card, ...parsed })),
+  };
+}
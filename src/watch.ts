@@ -0,0 +1,262 @@
+import * as path from "path";
+import chokidar, { FSWatcher } from "chokidar";
+import CardGenerator, { CardData, GeneratorConfig } from "./card-generator";
+import { formatOverflowReport } from "./text-fit";
+
+export interface WatchOptions {
+  /** Config file to watch; any change to it triggers a full rebuild. */
+  configPath: string;
+  /** Loads (or reloads) the generator config, including CLI overrides. */
+  loadConfig: () => Promise<GeneratorConfig>;
+  debugMode?: boolean;
+}
+
+type ChangeKind = "config" | "csv" | "template" | "font" | "icon" | "cardImage";
+
+/**
+ * Watches the config, CSV, element templates and fonts, and re-renders only
+ * the cards affected by each change. Render errors are logged and the watcher
+ * keeps running.
+ */
+export class CardWatcher {
+  private generator?: CardGenerator;
+  private watcher?: FSWatcher;
+  private watchedPaths = new Set<string>();
+  private rowSignatures = new Map<string, string>();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private options: WatchOptions) {}
+
+  public async start(): Promise<void> {
+    // The config is watched from the start so a broken initial config can be
+    // fixed without restarting the watcher.
+    this.watchedPaths.add(path.resolve(this.options.configPath));
+    this.watcher = chokidar.watch([...this.watchedPaths], {
+      ignoreInitial: true,
+      awaitWriteFinish: { stabilityThreshold: 200, pollInterval: 50 },
+    });
+    this.watcher.on("all", (event, filePath) => {
+      if (event === "addDir" || event === "unlinkDir") return;
+      this.enqueue(() => this.handleChange(event, path.resolve(filePath)));
+    });
+    this.watcher.on("error", (error) => {
+      console.error("❌ Watcher error:", error);
+    });
+
+    await this.enqueue(() => this.rebuild("initial build"));
+    console.log("\n👀 Watching for changes (Ctrl+C to stop)...");
+  }
+
+  public async close(): Promise<void> {
+    await this.watcher?.close();
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue.then(task).catch((error) => {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      console.error(`❌ Rebuild failed: ${errorMessage}`);
+    });
+    return this.queue;
+  }
+
+  private classify(filePath: string): ChangeKind | undefined {
+    if (filePath === path.resolve(this.options.configPath)) return "config";
+    if (!this.generator) return undefined;
+
+    const { csvPath, templatesPath, fontPaths, iconPaths, cardImagePaths } =
+      this.generator.getInputPaths();
+    if (filePath === path.resolve(csvPath)) return "csv";
+    if (fontPaths.some((fontPath) => path.resolve(fontPath) === filePath)) {
+      return "font";
+    }
+    if (iconPaths.some((iconPath) => path.resolve(iconPath) === filePath)) {
+      return "icon";
+    }
+    // Folders of templated layer images are watched as a whole
+    if (
+      cardImagePaths.some(
+        (imagePath) =>
+          filePath === path.resolve(imagePath) ||
+          filePath.startsWith(path.resolve(imagePath) + path.sep)
+      )
+    ) {
+      return "cardImage";
+    }
+    if (filePath.startsWith(path.resolve(templatesPath) + path.sep)) {
+      return "template";
+    }
+    return undefined;
+  }
+
+  private async handleChange(event: string, filePath: string): Promise<void> {
+    const kind = this.classify(filePath);
+    if (!kind) return;
+
+    const timestamp = new Date().toLocaleTimeString();
+    console.log(
+      `\n🔁 [${timestamp}] ${event}: ${path.relative(process.cwd(), filePath)}`
+    );
+
+    switch (kind) {
+      case "config":
+        await this.rebuild("config changed");
+        return;
+      case "font":
+        await this.rebuild("font changed");
+        return;
+      case "csv":
+        await this.renderChangedRows();
+        return;
+      case "icon":
+        this.requireGenerator().clearImageCache();
+        console.log("🎨 Icon changed, re-rendering every card");
+        await this.render(this.requireGenerator().getCards());
+        return;
+      case "cardImage":
+        this.requireGenerator().clearImageCache();
+        await this.renderCardsUsing(filePath);
+        return;
+      case "template":
+        this.requireGenerator().clearImageCache();
+        this.requireGenerator().clearTemplateCache();
+        await this.renderElement(this.getTemplateElement(filePath));
+        return;
+    }
+  }
+
+  /**
+   * Template files are named `<Element>_<variant>.png`, so the element is the
+   * part of the file name before the first underscore or dot.
+   */
+  private getTemplateElement(filePath: string): string {
+    return path.basename(filePath).split(/[_.]/)[0].toLowerCase();
+  }
+
+  private async rebuild(reason: string): Promise<void> {
+    console.log(`🏗️  Full rebuild (${reason})`);
+
+    if (this.generator) {
+      await this.generator.clearAllCaches();
+    }
+    this.generator = new CardGenerator(await this.options.loadConfig());
+    this.updateWatchedPaths();
+
+    await this.generator.loadFonts();
+    const cards = await this.generator.loadCSV();
+    this.rowSignatures = new Map(
+      cards.map((card) => [card.Card, JSON.stringify(card)])
+    );
+    await this.render(cards);
+  }
+
+  private async renderChangedRows(): Promise<void> {
+    const generator = this.requireGenerator();
+    const cards = await generator.loadCSV();
+    const previous = this.rowSignatures;
+    this.rowSignatures = new Map(
+      cards.map((card) => [card.Card, JSON.stringify(card)])
+    );
+
+    const changed = cards.filter(
+      (card) => previous.get(card.Card) !== this.rowSignatures.get(card.Card)
+    );
+    const removed = [...previous.keys()].filter(
+      (id) => !this.rowSignatures.has(id)
+    );
+
+    for (const id of removed) {
+      console.log(`➖ Card ${id} was removed from the CSV`);
+    }
+    if (removed.length) {
+      await generator.removeDeletedCards();
+    }
+    if (!changed.length) {
+      console.log("✔️  No card rows changed");
+      return;
+    }
+    console.log(
+      `✏️  ${changed.length} row(s) changed: ${changed
+        .map((card) => card.Card)
+        .join(", ")}`
+    );
+    await this.render(changed);
+  }
+
+  private async renderElement(element: string): Promise<void> {
+    const cards = this.requireGenerator()
+      .getCards()
+      .filter((card) => card.Element.toLowerCase() === element);
+
+    if (!cards.length) {
+      console.log(`✔️  No cards use the ${element} template`);
+      return;
+    }
+    console.log(`🎨 Re-rendering ${cards.length} ${element} card(s)`);
+    await this.render(cards);
+  }
+
+  private async renderCardsUsing(filePath: string): Promise<void> {
+    const generator = this.requireGenerator();
+    const cards = generator
+      .getCards()
+      .filter((card) =>
+        generator
+          .getCardImagePaths(card)
+          .some((imagePath) => path.resolve(imagePath) === filePath)
+      );
+
+    if (!cards.length) {
+      console.log(`✔️  No cards use ${path.basename(filePath)}`);
+      return;
+    }
+    console.log(
+      `🎨 Re-rendering ${cards.length} card(s) that use ${path.basename(
+        filePath
+      )}`
+    );
+    await this.render(cards);
+  }
+
+  private async render(cards: CardData[]): Promise<void> {
+    const summary = await this.requireGenerator().generateCards(
+      cards,
+      this.options.debugMode
+    );
+    const status = summary.failed.length ? "⚠️ " : "✅";
+    console.log(
+      `${status} ${summary.generated.length}/${summary.total} rendered, ${summary.failed.length} failed`
+    );
+    if (summary.overflows.length) {
+      console.warn(formatOverflowReport(summary.overflows));
+    }
+  }
+
+  private updateWatchedPaths(): void {
+    const { csvPath, templatesPath, fontPaths, iconPaths, cardImagePaths } =
+      this.requireGenerator().getInputPaths();
+    const next = new Set(
+      [
+        this.options.configPath,
+        csvPath,
+        templatesPath,
+        ...fontPaths,
+        ...iconPaths,
+        ...cardImagePaths,
+      ].map((p) => path.resolve(p))
+    );
+
+    const removed = [...this.watchedPaths].filter((p) => !next.has(p));
+    const added = [...next].filter((p) => !this.watchedPaths.has(p));
+    if (removed.length) this.watcher?.unwatch(removed);
+    if (added.length) this.watcher?.add(added);
+    this.watchedPaths = next;
+  }
+
+  private requireGenerator(): CardGenerator {
+    if (!this.generator) {
+      throw new Error("Watcher has not been started");
+    }
+    return this.generator;
+  }
+}
@@ -0,0 +1,357 @@
+import assert from "node:assert/strict";
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { ConfigError, loadGeneratorConfig } from "../src/config";
+import {
+  checkFilenamePattern,
+  findCollisions,
+  renderFilename,
+  slugify,
+} from "../src/filenames";
+import { findBreaks, isHyphenatable } from "../src/line-break";
+import {
+  describeRuns,
+  ellipsizeLine,
+  iconNames,
+  parseMarkup,
+  wrapRuns,
+  type RichLine,
+  type TextRun,
+} from "../src/rich-text";
+import { renderTemplate, templateColumns } from "../src/template";
+import { formatOverflowReport, truncateWithEllipsis } from "../src/text-fit";
+
+/**
+ * Unit tests for the parts of the generator that don't draw: line breaking,
+ * markup, text fitting, file names, templates and config validation. They
+ * need no canvas, so they run (and fail) fast, ahead of the visual tests.
+ *
+ *   pnpm test:unit
+ */
+
+interface UnitCase {
+  name: string;
+  run: () => void | Promise<void>;
+}
+
+const CASES: UnitCase[] = [];
+
+function test(name: string, run: UnitCase["run"]): void {
+  CASES.push({ name, run });
+}
+
+// Every character (and icon) is one unit wide
+const measure = (run: TextRun) =>
+  run.kind === "text" ? Array.from(run.text).length : 1;
+
+function lineTexts(lines: RichLine[]): string[] {
+  return lines.map((line) => describeRuns(line.pieces));
+}
+
+test("findBreaks: after spaces and newlines", () => {
+  assert.deepEqual(
+    [...findBreaks("Deal 3 damage.\nDraw")],
+    [
+      [5, "allowed"],
+      [7, "allowed"],
+      [15, "mandatory"],
+    ]
+  );
+});
+
+test("findBreaks: hyphens between letters and slashes in URLs", () => {
+  assert.deepEqual([...findBreaks("fire-drake")], [[5, "allowed"]]);
+  assert.deepEqual([...findBreaks("-5")], []);
+  assert.deepEqual([...findBreaks("a/b")], [[2, "allowed"]]);
+});
+
+test("findBreaks: CJK keeps closing punctuation on its line", () => {
+  // 火の鳥。 may break between the characters but not before 。
+  assert.deepEqual(
+    [...findBreaks("火の鳥。")].map(([offset]) => offset),
+    [1, 2]
+  );
+});
+
+test("isHyphenatable: Latin words only", () => {
+  assert.equal(isHyphenatable("Flamebringer"), true);
+  assert.equal(isHyphenatable("火の鳥"), false);
+  assert.equal(isHyphenatable("x2"), false);
+});
+
+test("parseMarkup: styles, colors, icons and escapes", () => {
+  const runs = parseMarkup(
+    "**Burn** {color:#f00}*hot*{/color} {icon:fire} \\*",
+    { markup: true }
+  );
+  assert.deepEqual(runs, [
+    {
+      kind: "text",
+      text: "Burn",
+      style: { bold: true, italic: false, color: undefined },
+    },
+    {
+      kind: "text",
+      text: " ",
+      style: { bold: false, italic: false, color: undefined },
+    },
+    {
+      kind: "text",
+      text: "hot",
+      style: { bold: false, italic: true, color: "#f00" },
+    },
+    {
+      kind: "text",
+      text: " ",
+      style: { bold: false, italic: false, color: undefined },
+    },
+    {
+      kind: "icon",
+      name: "fire",
+      style: { bold: false, italic: false, color: undefined },
+    },
+    {
+      kind: "text",
+      text: " *",
+      style: { bold: false, italic: false, color: undefined },
+    },
+  ]);
+  assert.deepEqual(iconNames(runs), ["fire"]);
+});
+
+test("parseMarkup: unpaired markers stay text", () => {
+  const runs = parseMarkup("2 * 3", { markup: true });
+  assert.equal(describeRuns(runs), "2 * 3");
+  assert.ok(runs.every((run) => !run.style.italic));
+});
+
+test("parseMarkup: bolds a leading skill name", () => {
+  const runs = parseMarkup("Blaze: deal 2", { boldSkillName: true });
+  assert.equal(runs[0].kind === "text" && runs[0].text, "Blaze:");
+  assert.equal(runs[0].style.bold, true);
+  assert.equal(describeRuns(runs), "Blaze: deal 2");
+});
+
+test("wrapRuns: breaks at spaces and newlines", () => {
+  const runs = parseMarkup("Deal 3 damage to a unit\nDraw", {});
+  assert.deepEqual(lineTexts(wrapRuns(runs, 12, measure)), [
+    "Deal 3",
+    "damage to a",
+    "unit",
+    "Draw",
+  ]);
+});
+
+test("wrapRuns: hyphenates words wider than a line", () => {
+  const runs = parseMarkup("Flamebringer", {});
+  assert.deepEqual(lineTexts(wrapRuns(runs, 6, measure)), [
+    "Flame-",
+    "bring-",
+    "er",
+  ]);
+});
+
+test("wrapRuns: keeps icons with the word they touch", () => {
+  const runs = parseMarkup("Gain 2{icon:mana} now", { markup: true });
+  assert.deepEqual(lineTexts(wrapRuns(runs, 7, measure)), [
+    "Gain",
+    "2{icon:mana} now",
+  ]);
+});
+
+test("ellipsizeLine: cuts at a word boundary", () => {
+  const [line] = wrapRuns(parseMarkup("Deal 3 damage", {}), 20, measure);
+  const ellipsized = ellipsizeLine(line, 9, measure);
+  assert.deepEqual(lineTexts([ellipsized]), ["Deal 3…"]);
+  assert.ok(ellipsized.width <= 9);
+});
+
+test("truncateWithEllipsis: words first, then characters", () => {
+  const length = (text: string) => Array.from(text).length;
+  assert.equal(truncateWithEllipsis("Deal 3 damage", 8, length), "Deal 3…");
+  assert.equal(truncateWithEllipsis("Flamebringer", 6, length), "Flame…");
+});
+
+test("formatOverflowReport: one line per field", () => {
+  const report = formatOverflowReport([
+    {
+      card: "7",
+      field: "lore",
+      fit: "overflow",
+      fontSize: 14,
+      lines: 6,
+      maxLines: 4,
+      message: "6 lines, 4 fit",
+    },
+  ]);
+  assert.equal(
+    report,
+    "📐 1 text field(s) did not fit their box:\n   ⚠️  card 7, lore (overflow): 6 lines, 4 fit"
+  );
+});
+
+test("slugify: readable, Unicode-aware and safe on Windows", () => {
+  assert.equal(slugify("Fire Drake"), "fire-drake");
+  assert.equal(slugify("Ünïcorn"), "ünïcorn");
+  assert.equal(slugify("火の鳥"), "火の鳥");
+  assert.equal(slugify("Bug's ../Life"), "bugs-life");
+  assert.equal(slugify("CON"), "con_");
+});
+
+test("renderFilename: slugs values, keeps pattern folders", () => {
+  const row = { Card: "12", Name: "Fire Drake", Element: "a/b" };
+  assert.equal(
+    renderFilename("{{Element}}/{{Card}}-{{Name}}.png", row),
+    "a-b/12-fire-drake"
+  );
+  assert.equal(renderFilename("./{{Card}}", row), "12");
+});
+
+test("checkFilenamePattern: relative, inside and per card", () => {
+  assert.equal(checkFilenamePattern("{{Element}}/{{Card}}"), undefined);
+  assert.match(checkFilenamePattern("/tmp/{{Card}}") || "", /relative/);
+  assert.match(checkFilenamePattern("../{{Card}}") || "", /outside/);
+  assert.match(checkFilenamePattern("card") || "", /same name/);
+});
+
+test("findCollisions: compares names case-insensitively", () => {
+  assert.deepEqual(
+    findCollisions([
+      { card: "1", name: "drake" },
+      { card: "2", name: "Drake" },
+      { card: "3", name: "imp" },
+    ]),
+    [{ name: "drake", cards: ["1", "2"] }]
+  );
+});
+
+test("renderTemplate: empty columns and requireAll", () => {
+  const row = { Attack: "3", Set: "", Name: " Imp " };
+  assert.equal(renderTemplate("ATK {{ Attack }}", row), "ATK 3");
+  assert.equal(renderTemplate("ATK {{Armor}}", row), "");
+  assert.equal(renderTemplate("{{Name}} {{Set}}", row), "Imp ");
+  assert.equal(
+    renderTemplate("{{Name}} {{Set}}", row, { requireAll: true }),
+    ""
+  );
+  assert.equal(
+    renderTemplate("{{Name}}", row, { transform: (v) => v.toUpperCase() }),
+    "IMP"
+  );
+  assert.deepEqual(templateColumns("{{A}} {{ B }} {{A}}"), ["A", "B"]);
+});
+
+async function withConfig<T>(
+  config: unknown,
+  run: (configPath: string) => Promise<T>
+): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "card-config-"));
+  const configPath = path.join(dir, "cards.config.json");
+  try {
+    await fs.writeJson(configPath, config);
+    return await run(configPath);
+  } finally {
+    await fs.remove(dir);
+  }
+}
+
+async function configIssues(config: unknown): Promise<string[]> {
+  return withConfig(config, async (configPath) => {
+    try {
+      await loadGeneratorConfig(configPath);
+      return [];
+    } catch (error) {
+      if (error instanceof ConfigError) return error.issues;
+      throw error;
+    }
+  });
+}
+
+test("loadGeneratorConfig: extends merges objects, replaces lists", async () => {
+  const config = await withConfig(
+    {
+      default: "print",
+      configs: {
+        base: {
+          cardWidth: 750,
+          cardHeight: 1050,
+          print: { dpi: 300, bleed: 3, cropMarks: true },
+          outputs: [
+            { name: "png", format: "png" },
+            { name: "webp", format: "webp" },
+          ],
+        },
+        print: {
+          extends: "base",
+          print: { dpi: 600 },
+          outputs: [{ name: "jpeg", format: "jpeg" }],
+        },
+      },
+    },
+    (configPath) => loadGeneratorConfig(configPath)
+  );
+  assert.equal(config.cardWidth, 750);
+  assert.equal(config.print?.dpi, 600);
+  assert.equal(config.print?.bleed, 3);
+  assert.equal(config.print?.cropMarks, true);
+  assert.deepEqual(
+    config.outputs?.map((target) => target.name),
+    ["jpeg"]
+  );
+});
+
+test("loadGeneratorConfig: reports wrong types and missing keys", async () => {
+  assert.deepEqual(await configIssues({ cardWidth: "750" }), [
+    "configs.default.cardWidth: expected a number, got string",
+  ]);
+  assert.deepEqual(await configIssues({ cardWidth: 750 }), [
+    'configs.default: missing required key "cardHeight"',
+  ]);
+});
+
+test("loadGeneratorConfig: extras may not take the card back names", async () => {
+  const issues = await configIssues({
+    cardWidth: 750,
+    cardHeight: 1050,
+    cardBack: { backgroundColor: "#222" },
+    contactSheet: { file: "back-fire.png" },
+  });
+  assert.equal(issues.length, 1);
+  assert.match(issues[0], /contactSheet\.file: "back-fire\.png" clashes/);
+});
+
+test("loadGeneratorConfig: offline needs the art cache", async () => {
+  const issues = await configIssues({
+    cardWidth: 750,
+    cardHeight: 1050,
+    artCache: { enabled: false, offline: true },
+  });
+  assert.equal(issues.length, 1);
+  assert.match(issues[0], /artCache\.offline: needs the cache/);
+});
+
+async function main(): Promise<void> {
+  let failures = 0;
+  for (const testCase of CASES) {
+    try {
+      await testCase.run();
+      console.log(`✅ ${testCase.name}`);
+    } catch (error) {
+      failures++;
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      console.error(`❌ ${testCase.name}: ${errorMessage}`);
+    }
+  }
+
+  console.log(`\n${CASES.length - failures} passed, ${failures} failed`);
+  if (failures) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Unit tests failed to run:", error);
+  process.exit(1);
+});
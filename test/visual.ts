@@ -0,0 +1,203 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import pixelmatch from "pixelmatch";
+import sharp from "sharp";
+import CardGenerator, { CardData } from "../src/card-generator";
+
+/**
+ * Golden-image tests: renders a few cards with the default layout, a fixed
+ * art fixture and the bundled font, and compares them pixel by pixel with
+ * the reference PNGs in `test/__snapshots__/`. Differing cards get a diff
+ * image (changed pixels in red) and the actual render in `test/__diff__/`.
+ * A missing reference is written from the current render, except on CI.
+ *
+ *   pnpm test                       compare against the references
+ *   pnpm test:update                rewrite the references after a wanted change
+ */
+
+const ROOT = path.join(__dirname, "..");
+const FIXTURES = path.join(__dirname, "fixtures");
+const SNAPSHOT_DIR = path.join(__dirname, "__snapshots__");
+const DIFF_DIR = path.join(__dirname, "__diff__");
+
+// How different two pixels' colours may be before they count as changed
+// (pixelmatch's YIQ threshold, 0 to 1); absorbs antialiasing noise
+const PIXEL_THRESHOLD = 0.1;
+// Share of changed pixels a card may have and still pass, e.g. for font
+// hinting that differs slightly between FreeType versions
+const MAX_DIFF_RATIO = 0.001;
+
+interface VisualCase {
+  // Snapshot file name, without extension
+  name: string;
+  card: string;
+  debug?: boolean;
+}
+
+const CASES: VisualCase[] = [
+  { name: "wind-ultra", card: "1" },
+  { name: "energy-ultra", card: "2" },
+  { name: "fire-super", card: "6" },
+  // Lore longer than the default lore box, which has no `fit`
+  { name: "water-rare-long-lore", card: "9" },
+  // The layout boxes themselves
+  { name: "wind-ultra-debug", card: "1", debug: true },
+];
+
+type CaseResult =
+  | { status: "passed"; ratio: number }
+  | { status: "written" }
+  | { status: "failed"; message: string };
+
+function createGenerator(): CardGenerator {
+  const art = path.join(FIXTURES, "art.png");
+  return new CardGenerator({
+    templatesPath: path.join(ROOT, "assets"),
+    csvPath: path.join(FIXTURES, "cards.csv"),
+    fonts: {
+      "Stone Serif Semibold": path.join(ROOT, "fonts/Stone Serif Semibold.ttf"),
+    },
+    icons: {
+      star: path.join(ROOT, "icons/star.png"),
+      sword: path.join(ROOT, "icons/sword.png"),
+      shield: path.join(ROOT, "icons/shield.png"),
+    },
+    // Star characters would fall back to whatever system font has them
+    statIcons: { cost: { icon: "star", maxIcons: 10 } },
+    // The same art for every card, never downloaded
+    artResolver: {
+      getCandidates: async () => [
+        { source: "fixture", data: art, location: art },
+      ],
+    },
+    concurrency: 1,
+  });
+}
+
+async function toRgba(png: Buffer) {
+  const { data, info } = await sharp(png)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+async function compare(
+  name: string,
+  actualPng: Buffer,
+  update: boolean
+): Promise<CaseResult> {
+  const snapshotPath = path.join(SNAPSHOT_DIR, `${name}.png`);
+  const exists = await fs.pathExists(snapshotPath);
+  if (!exists && !update && process.env.CI) {
+    return {
+      status: "failed",
+      message: "no reference; run with --update-snapshots and commit it",
+    };
+  }
+  if (update || !exists) {
+    await fs.outputFile(snapshotPath, actualPng);
+    return { status: "written" };
+  }
+
+  const actual = await toRgba(actualPng);
+  const expected = await toRgba(await fs.readFile(snapshotPath));
+  const actualPath = path.join(DIFF_DIR, `${name}.actual.png`);
+  if (actual.width !== expected.width || actual.height !== expected.height) {
+    await fs.outputFile(actualPath, actualPng);
+    return {
+      status: "failed",
+      message: `size ${actual.width}x${actual.height} instead of ${expected.width}x${expected.height}`,
+    };
+  }
+
+  const diff = Buffer.alloc(actual.data.length);
+  const changed = pixelmatch(
+    actual.data,
+    expected.data,
+    diff,
+    actual.width,
+    actual.height,
+    { threshold: PIXEL_THRESHOLD }
+  );
+  const ratio = changed / (actual.width * actual.height);
+  if (ratio <= MAX_DIFF_RATIO) {
+    return { status: "passed", ratio };
+  }
+
+  const diffPath = path.join(DIFF_DIR, `${name}.diff.png`);
+  await fs.outputFile(actualPath, actualPng);
+  await fs.outputFile(
+    diffPath,
+    await sharp(diff, {
+      raw: { width: actual.width, height: actual.height, channels: 4 },
+    })
+      .png()
+      .toBuffer()
+  );
+  return {
+    status: "failed",
+    message: `${changed} pixels (${(ratio * 100).toFixed(
+      2
+    )}%) differ, see ${path.relative(ROOT, diffPath)}`,
+  };
+}
+
+async function main(): Promise<void> {
+  const update = process.argv.includes("--update-snapshots");
+  const generator = createGenerator();
+  await generator.loadFonts();
+  const cards = await generator.loadCSV();
+  await fs.remove(DIFF_DIR);
+
+  let failures = 0;
+  let written = 0;
+  for (const testCase of CASES) {
+    const card = cards.find((row: CardData) => row.Card === testCase.card);
+    let result: CaseResult;
+    try {
+      if (!card) {
+        throw new Error(`Card ${testCase.card} is not in the fixture CSV`);
+      }
+      const { canvas } = await generator.renderCard(card, testCase.debug);
+      result = await compare(
+        testCase.name,
+        canvas.toBuffer("image/png"),
+        update
+      );
+    } catch (error) {
+      result = {
+        status: "failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+
+    if (result.status === "passed") {
+      console.log(`✅ ${testCase.name}`);
+    } else if (result.status === "written") {
+      written++;
+      console.log(`📸 ${testCase.name}: reference written`);
+    } else {
+      failures++;
+      console.error(`❌ ${testCase.name}: ${result.message}`);
+    }
+  }
+
+  console.log(
+    `\n${
+      CASES.length - failures - written
+    } passed, ${failures} failed, ${written} written`
+  );
+  if (written && !update) {
+    console.log("📸 New references were written; review and commit them");
+  }
+  if (failures) {
+    console.log("💡 If the change is intended, run `pnpm test:update`");
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Visual tests failed to run:", error);
+  process.exit(1);
+});